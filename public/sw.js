@@ -0,0 +1,101 @@
+// =============================================
+// SERVICE WORKER
+// =============================================
+
+// Caches the app so it starts without a connection, and caches every map
+// tile it sees so visited areas stay drawn offline. Bump CACHE_VERSION when
+// the caching rules change so old caches are dropped.
+
+const CACHE_VERSION = 1;
+const APP_CACHE = `world-of-bits-app-v${CACHE_VERSION}`;
+const TILE_CACHE = `world-of-bits-tiles-v${CACHE_VERSION}`;
+const TILE_CACHE_LIMIT = 2000; // Oldest tiles are evicted past this
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(APP_CACHE)
+      .then((cache) => cache.addAll(["./", "./manifest.webmanifest"]))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== APP_CACHE && key !== TILE_CACHE)
+            .map((key) => caches.delete(key)),
+        )
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "cacheUrls") return;
+
+  event.waitUntil(
+    caches.open(APP_CACHE).then((cache) =>
+      Promise.all(
+        event.data.urls.map((url) =>
+          cache.add(url).catch((error) =>
+            console.warn(`Could not cache ${url}:`, error)
+          )
+        ),
+      )
+    ),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const request = event.request;
+  if (request.method !== "GET") return;
+
+  const isSameOrigin = new URL(request.url).origin === self.location.origin;
+  if (isSameOrigin) {
+    event.respondWith(networkFirst(request));
+  } else if (request.destination === "image") {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+// App files: always fresh when online, so development builds never go stale
+async function networkFirst(request) {
+  const cache = await caches.open(APP_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Map tiles never change, so a cached tile is always good enough
+async function cacheFirst(request) {
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  // Tiles load without CORS, so successful responses arrive opaque. Those
+  // weigh heavily against the storage quota, so caching may fail; the tile
+  // is still shown.
+  if (response.ok || response.type === "opaque") {
+    cache.put(request, response.clone())
+      .then(() => trimCache(cache, TILE_CACHE_LIMIT))
+      .catch((error) => console.warn(`Could not cache ${request.url}:`, error));
+  }
+  return response;
+}
+
+async function trimCache(cache, limit) {
+  const keys = await cache.keys();
+  for (const key of keys.slice(0, Math.max(0, keys.length - limit))) {
+    await cache.delete(key);
+  }
+}
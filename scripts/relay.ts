@@ -0,0 +1,34 @@
+// =============================================
+// SYNC RELAY
+// =============================================
+
+// A minimal WebSocket relay for multiplayer sync: every message a client
+// sends is forwarded unchanged to all other clients. Run it with
+// `deno task relay [port]` and open the game with ?relay=ws://host:port.
+
+const port = Number(Deno.args[0] ?? 8787);
+const clients = new Set<WebSocket>();
+
+Deno.serve({ port }, (request) => {
+  if (request.headers.get("upgrade") !== "websocket") {
+    return new Response("World of Bits sync relay", { status: 426 });
+  }
+
+  const { socket, response } = Deno.upgradeWebSocket(request);
+  socket.addEventListener("open", () => {
+    clients.add(socket);
+    console.log(`Client connected (${clients.size} online)`);
+  });
+  socket.addEventListener("message", (event) => {
+    for (const client of clients) {
+      if (client !== socket && client.readyState === WebSocket.OPEN) {
+        client.send(event.data);
+      }
+    }
+  });
+  socket.addEventListener("close", () => {
+    clients.delete(socket);
+    console.log(`Client disconnected (${clients.size} online)`);
+  });
+  return response;
+});
@@ -0,0 +1,147 @@
+import type { CellAction, GameEngine } from "./engine.ts";
+import { cellToKey } from "./grid.ts";
+import type { CellThemeId } from "./renderer.ts";
+import { combineTokens, describeToken } from "./tokens.ts";
+import type { CellCoordinates, GridCell } from "./types.ts";
+
+// =============================================
+// SPOKEN DESCRIPTIONS
+// =============================================
+
+// Plain-text descriptions of the board for screen readers and for playing
+// without the map. Directions are relative to the player's cell.
+
+export function describeOffset(offset: CellCoordinates): string {
+  const parts: string[] = [];
+  if (offset.i !== 0) {
+    parts.push(`${Math.abs(offset.i)} ${offset.i > 0 ? "north" : "south"}`);
+  }
+  if (offset.j !== 0) {
+    parts.push(`${Math.abs(offset.j)} ${offset.j > 0 ? "east" : "west"}`);
+  }
+  return parts.length > 0 ? parts.join(", ") : "your cell";
+}
+
+// Counted the short way around the globe, so a cell just across the
+// antimeridian is a few cells east rather than a whole turn west
+function offsetFromPlayer(engine: GameEngine, cell: GridCell): CellCoordinates {
+  return engine.world.grid.getOffset(engine.getPlayerCell(), cell.coordinates);
+}
+
+// What an interaction did, worded for an announcement. Called after the
+// engine has applied it, so the cell and inventory hold the result.
+export function describeInteraction(
+  engine: GameEngine,
+  cell: GridCell,
+  action: CellAction,
+): string {
+  const where = describeOffset(offsetFromPlayer(engine, cell));
+  const heldToken = engine.getActiveToken();
+
+  switch (action) {
+    case "pickup":
+      return `Picked up ${heldToken ? describeToken(heldToken) : "a token"} ` +
+        `from ${where} into slot ${engine.player.activeSlot + 1}.`;
+    case "drop":
+      return `Dropped ${cell.token ? describeToken(cell.token) : "a token"} ` +
+        `at ${where}.`;
+    case "merge":
+      return `Merged into ${
+        cell.token ? describeToken(cell.token) : "a token"
+      } at ${where}. ${engine.player.points} points.`;
+    case "outOfRange":
+      return `Too far! ${where} is outside your range of ` +
+        `${engine.ruleset.interactionRange} cells.`;
+    case "invalid":
+      return `Nothing to do at ${where}.`;
+  }
+}
+
+// =============================================
+// NEARBY CELLS
+// =============================================
+
+export interface NearbyCell {
+  cell: GridCell;
+  key: string;
+  description: string;
+}
+
+// Describes what clicking the cell would do with the held token
+function describeCellOption(engine: GameEngine, cell: GridCell): string | null {
+  const heldToken = engine.getActiveToken();
+
+  if (!cell.token) {
+    return heldToken ? `empty, drop ${describeToken(heldToken)}` : null;
+  }
+  if (!heldToken) return `${describeToken(cell.token)}, pick up`;
+
+  const result = combineTokens(engine.ruleset.recipes, heldToken, cell.token);
+  return result
+    ? `${describeToken(cell.token)}, merge into ${describeToken(result)}`
+    : `${describeToken(cell.token)}, cannot merge`;
+}
+
+// Every reachable cell the player could act on, nearest first. Empty cells
+// are only listed while a token is held, since they are drop targets then.
+export function listNearbyCells(engine: GameEngine): NearbyCell[] {
+  const playerCell = engine.getPlayerCell();
+  const nearby: NearbyCell[] = [];
+
+  for (
+    const coordinates of engine.world.grid.getCellsInRadius(
+      playerCell,
+      engine.ruleset.interactionRange,
+    )
+  ) {
+    const key = cellToKey(coordinates.i, coordinates.j);
+    const cell = engine.world.getCell(key);
+    if (!cell) continue;
+
+    const option = describeCellOption(engine, cell);
+    if (option === null) continue;
+
+    const where = describeOffset(offsetFromPlayer(engine, cell));
+    nearby.push({ cell, key, description: `${where}: ${option}` });
+  }
+
+  // Cells as many steps away are ordered by how far off straight they lie
+  const grid = engine.world.grid;
+  const distance = (entry: NearbyCell) =>
+    grid.cellDistance(playerCell, entry.cell.coordinates);
+  const spread = (entry: NearbyCell) => {
+    const offset = grid.getOffset(playerCell, entry.cell.coordinates);
+    return Math.abs(offset.i) + Math.abs(offset.j);
+  };
+  return nearby.sort((a, b) =>
+    distance(a) - distance(b) || spread(a) - spread(b)
+  );
+}
+
+// =============================================
+// THEME PREFERENCE
+// =============================================
+
+// Follows the system's contrast setting until the player picks a theme
+export function loadThemePreference(storageKey: string): CellThemeId {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    if (stored === "standard" || stored === "highContrast") return stored;
+  } catch (error) {
+    console.warn("Failed to read theme preference:", error);
+  }
+  return globalThis.matchMedia?.("(prefers-contrast: more)").matches
+    ? "highContrast"
+    : "standard";
+}
+
+export function saveThemePreference(
+  storageKey: string,
+  themeId: CellThemeId,
+): void {
+  try {
+    localStorage.setItem(storageKey, themeId);
+  } catch (error) {
+    console.warn("Failed to save theme preference:", error);
+  }
+}
@@ -0,0 +1,105 @@
+import { countMerges, type GameStatistics } from "./stats.ts";
+
+// =============================================
+// ACHIEVEMENTS
+// =============================================
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  goal: number;
+  progress: (stats: GameStatistics) => number; // Unlocks at >= goal
+}
+
+const TEN_MINUTES_MS = 10 * 60 * 1000;
+
+export const ACHIEVEMENTS: readonly Achievement[] = [
+  {
+    id: "first-pickup",
+    name: "Finders Keepers",
+    description: "Pick up your first token",
+    goal: 1,
+    progress: (stats) => stats.pickups,
+  },
+  {
+    id: "hoarder",
+    name: "Hoarder",
+    description: "Pick up 100 tokens",
+    goal: 100,
+    progress: (stats) => stats.pickups,
+  },
+  {
+    id: "first-merge",
+    name: "Better Together",
+    description: "Merge two tokens",
+    goal: 1,
+    progress: (stats) => countMerges(stats),
+  },
+  {
+    id: "merge-64",
+    name: "Six Bits",
+    description: "Merge a token worth 64 or more",
+    goal: 1,
+    progress: (stats) => countMerges(stats, 64),
+  },
+  {
+    id: "landscaper",
+    name: "Landscaper",
+    description: "Drop 50 tokens",
+    goal: 50,
+    progress: (stats) => stats.drops,
+  },
+  {
+    id: "explorer",
+    name: "Explorer",
+    description: "Stand on 100 different cells",
+    goal: 100,
+    progress: (stats) => stats.visitedCells.length,
+  },
+  {
+    id: "marathon",
+    name: "Marathon",
+    description: "Walk 1000 cells",
+    goal: 1000,
+    progress: (stats) => stats.distanceWalked,
+  },
+  {
+    id: "speedrun-256",
+    name: "Speedrunner",
+    description: "Reach a 256 token within 10 minutes of play",
+    goal: 1,
+    progress: (stats) => {
+      const reachedAt = stats.powerReachedAt[256];
+      return reachedAt !== undefined && reachedAt <= TEN_MINUTES_MS ? 1 : 0;
+    },
+  },
+];
+
+// Achievement id -> when it unlocked (epoch ms)
+export type UnlockedAchievements = Record<string, number>;
+
+export function validateUnlockedAchievements(value: unknown): string[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return ["achievements must be an object"];
+  }
+  return Object.entries(value)
+    .filter(([, unlockedAt]) => typeof unlockedAt !== "number")
+    .map(([id]) => `achievements.${id} must be a timestamp`);
+}
+
+// Unlocks every achievement the stats have earned and returns the new ones
+export function unlockAchievements(
+  stats: GameStatistics,
+  unlocked: UnlockedAchievements,
+): Achievement[] {
+  const now = Date.now();
+  const newlyUnlocked = ACHIEVEMENTS.filter((achievement) =>
+    unlocked[achievement.id] === undefined &&
+    achievement.progress(stats) >= achievement.goal
+  );
+  for (const achievement of newlyUnlocked) {
+    unlocked[achievement.id] = now;
+  }
+  return newlyUnlocked;
+}
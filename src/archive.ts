@@ -0,0 +1,97 @@
+import type { CellMemento } from "./memento.ts";
+import type { ChunkKey } from "./types.ts";
+
+// =============================================
+// MEMENTO ARCHIVE
+// =============================================
+
+const STORE_NAME = "pagedChunks";
+
+interface ArchivedChunk {
+  chunkKey: ChunkKey;
+  mementos: CellMemento[];
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function complete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Holds the mementos paged out of memory, one record per region chunk. Like
+// the save slot, the archive belongs to the one saved game: whatever
+// replaces that game has to clear it.
+export class MementoArchive {
+  private constructor(private database: IDBDatabase) {}
+
+  // Resolves to null where IndexedDB is unavailable, e.g. private windows
+  static async open(databaseName: string): Promise<MementoArchive | null> {
+    if (!("indexedDB" in globalThis)) return null;
+
+    try {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "chunkKey" });
+      };
+      return new MementoArchive(await settle(request));
+    } catch (error) {
+      console.warn("Memento archive unavailable:", error);
+      return null;
+    }
+  }
+
+  async listChunks(): Promise<ChunkKey[]> {
+    const store = this.database.transaction(STORE_NAME).objectStore(
+      STORE_NAME,
+    );
+    const keys = await settle(store.getAllKeys());
+    return keys.map(String);
+  }
+
+  // Adds to whatever the chunk already holds; later mementos replace
+  // earlier ones for the same cell
+  async putChunk(chunkKey: ChunkKey, mementos: CellMemento[]): Promise<void> {
+    const transaction = this.database.transaction(STORE_NAME, "readwrite");
+    const store = transaction.objectStore(STORE_NAME);
+    const existing = await settle<ArchivedChunk | undefined>(
+      store.get(chunkKey),
+    );
+
+    const merged = new Map(
+      existing?.mementos.map((memento) => [memento.cellKey, memento]),
+    );
+    for (const memento of mementos) merged.set(memento.cellKey, memento);
+
+    const chunk: ArchivedChunk = {
+      chunkKey,
+      mementos: Array.from(merged.values()),
+    };
+    store.put(chunk);
+    await complete(transaction);
+  }
+
+  // Reads a chunk and removes it from the archive
+  async takeChunk(chunkKey: ChunkKey): Promise<CellMemento[]> {
+    const transaction = this.database.transaction(STORE_NAME, "readwrite");
+    const store = transaction.objectStore(STORE_NAME);
+    const chunk = await settle<ArchivedChunk | undefined>(store.get(chunkKey));
+    store.delete(chunkKey);
+    await complete(transaction);
+    return chunk?.mementos ?? [];
+  }
+
+  async clear(): Promise<void> {
+    const transaction = this.database.transaction(STORE_NAME, "readwrite");
+    transaction.objectStore(STORE_NAME).clear();
+    await complete(transaction);
+  }
+}
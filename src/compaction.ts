@@ -0,0 +1,264 @@
+import type { MementoArchive } from "./archive.ts";
+import type { GameEngine, GameEvent } from "./engine.ts";
+import { cellToKey, getChunkKey, keyToCell } from "./grid.ts";
+import type { CellMemento } from "./memento.ts";
+import type { CellKey, ChunkKey } from "./types.ts";
+
+// =============================================
+// STORAGE COMPACTION
+// =============================================
+
+export interface StorageStats {
+  activeCells: number;
+  savedStates: number; // Mementos held in memory
+  flyweights: number;
+  pagedChunks: number; // Chunks whose mementos live in the archive
+}
+
+export interface CompactionReport {
+  before: StorageStats;
+  after: StorageStats;
+  droppedStates: number; // Matched their generated token
+  evictedFlyweights: number;
+  pagedOutStates: number;
+}
+
+export type StorageEvent =
+  | { type: "compacted"; report: CompactionReport }
+  | { type: "pagedIn"; cellKeys: CellKey[] };
+
+export interface CompactionOptions {
+  compactEveryDespawns: number;
+  pageOutChunks: number;
+  pageInChunks: number; // Must be smaller than pageOutChunks
+}
+
+function getChunkDistance(a: ChunkKey, b: ChunkKey): number {
+  const chunkA = keyToCell(a);
+  const chunkB = keyToCell(b);
+  return Math.max(Math.abs(chunkA.i - chunkB.i), Math.abs(chunkA.j - chunkB.j));
+}
+
+// Keeps a long session's memory bounded. Every so many despawns it drops
+// mementos that match their generated token, releases the flyweights of
+// cells out of play and, with an archive, pages out the mementos of chunks
+// far from the player. Paged chunks come back as the player nears them.
+export class StorageCompactor {
+  private archive: MementoArchive | null = null;
+  private pagedChunks = new Set<ChunkKey>();
+  private loadingChunks = new Set<ChunkKey>();
+  private listeners = new Set<(event: StorageEvent) => void>();
+  private unsubscribe: (() => void) | null = null;
+  private despawnsSinceCompaction = 0;
+  private isCompacting = false;
+  private isPageOutSuspended = false;
+
+  constructor(
+    private engine: GameEngine,
+    private options: CompactionOptions,
+  ) {}
+
+  subscribe(listener: (event: StorageEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Without an archive nothing is paged out. A fresh game must not pick up
+  // chunks paged out by the game it replaced.
+  async start(
+    archive: MementoArchive | null,
+    isFreshGame: boolean,
+  ): Promise<void> {
+    if (archive && isFreshGame) {
+      await archive.clear();
+    } else if (archive) {
+      for (const key of await archive.listChunks()) this.pagedChunks.add(key);
+    }
+    this.archive = archive;
+
+    this.unsubscribe = this.engine.subscribe((event) =>
+      this.handleEvent(event)
+    );
+    await this.pageInNearby();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  getStats(): StorageStats {
+    const world = this.engine.world;
+    return {
+      activeCells: world.getActiveCellCount(),
+      savedStates: world.caretaker.getStateCount(),
+      flyweights: world.flyweights.getFlyweightCount(),
+      pagedChunks: this.pagedChunks.size,
+    };
+  }
+
+  async compact(): Promise<CompactionReport> {
+    const before = this.getStats();
+    const world = this.engine.world;
+
+    this.isCompacting = true;
+    try {
+      const droppedStates = world.dropGeneratedStates();
+      const evictedFlyweights = world.evictInactiveFlyweights();
+      const pagedOutStates = await this.pageOutDistant();
+      this.despawnsSinceCompaction = 0;
+
+      const report = {
+        before,
+        after: this.getStats(),
+        droppedStates,
+        evictedFlyweights,
+        pagedOutStates,
+      };
+      console.log("Storage compacted:", report);
+      this.emit({ type: "compacted", report });
+      return report;
+    } finally {
+      this.isCompacting = false;
+    }
+  }
+
+  // Brings every paged chunk back, e.g. before exporting the whole game
+  async pageInAll(): Promise<void> {
+    await this.pageIn(Array.from(this.pagedChunks));
+  }
+
+  isPaging(): boolean {
+    return this.archive !== null;
+  }
+
+  // Brings every paged chunk back and stops paging. The archive is kept
+  // while any chunk could not be read, so that its cells are never lost.
+  async releaseArchive(): Promise<boolean> {
+    await this.pageInAll();
+    if (this.pagedChunks.size > 0) return false;
+
+    this.archive = null;
+    return true;
+  }
+
+  // Brings every paged chunk back and keeps all cells in memory until
+  // resumed, e.g. while a replay is recorded: paging a cell back in is not
+  // a step the replay could repeat. Returns whether every chunk came back.
+  async suspendPageOut(): Promise<boolean> {
+    this.isPageOutSuspended = true;
+    await this.pageInAll();
+    return this.pagedChunks.size === 0;
+  }
+
+  resumePageOut(): void {
+    this.isPageOutSuspended = false;
+  }
+
+  // Forgets the paged chunks along with the saved game they belonged to
+  async clearArchive(): Promise<void> {
+    this.pagedChunks.clear();
+    await this.archive?.clear();
+  }
+
+  private emit(event: StorageEvent): void {
+    for (const listener of this.listeners) listener(event);
+  }
+
+  private handleEvent(event: GameEvent): void {
+    if (event.type === "playerMoved") {
+      this.pageInNearby();
+    } else if (event.type === "cellDespawned") {
+      this.despawnsSinceCompaction++;
+      if (
+        !this.isCompacting &&
+        this.despawnsSinceCompaction >= this.options.compactEveryDespawns
+      ) {
+        // Let the visibility update that despawned the cells finish first
+        this.despawnsSinceCompaction = 0;
+        queueMicrotask(() => this.compact());
+      }
+    }
+  }
+
+  private getPlayerChunk(): ChunkKey {
+    const { i, j } = this.engine.getPlayerCell();
+    return getChunkKey(cellToKey(i, j));
+  }
+
+  private async pageOutDistant(): Promise<number> {
+    if (!this.archive || this.isPageOutSuspended) return 0;
+
+    const playerChunk = this.getPlayerChunk();
+    const world = this.engine.world;
+    const distant = new Map<ChunkKey, CellMemento[]>();
+    for (const memento of world.caretaker.getLoadedStates().values()) {
+      const chunkKey = getChunkKey(memento.cellKey);
+      if (
+        world.isCellActive(memento.cellKey) ||
+        getChunkDistance(chunkKey, playerChunk) <= this.options.pageOutChunks
+      ) {
+        continue;
+      }
+      distant.set(chunkKey, [...(distant.get(chunkKey) ?? []), memento]);
+    }
+
+    let pagedOut = 0;
+    for (const [chunkKey, mementos] of distant) {
+      try {
+        await this.archive.putChunk(chunkKey, mementos);
+      } catch (error) {
+        console.warn(`Could not page out chunk ${chunkKey}:`, error);
+        continue;
+      }
+      this.pagedChunks.add(chunkKey);
+
+      // Cells changed while the chunk was being written stay in memory
+      for (const memento of mementos) {
+        if (world.caretaker.getState(memento.cellKey) === memento) {
+          world.caretaker.clearState(memento.cellKey);
+          pagedOut++;
+        }
+      }
+    }
+    return pagedOut;
+  }
+
+  private async pageInNearby(): Promise<void> {
+    const playerChunk = this.getPlayerChunk();
+    await this.pageIn(
+      Array.from(this.pagedChunks).filter((chunkKey) =>
+        getChunkDistance(chunkKey, playerChunk) <= this.options.pageInChunks
+      ),
+    );
+  }
+
+  private async pageIn(chunkKeys: ChunkKey[]): Promise<void> {
+    if (!this.archive) return;
+
+    const cellKeys: CellKey[] = [];
+    for (const chunkKey of chunkKeys) {
+      if (this.loadingChunks.has(chunkKey)) continue;
+
+      this.loadingChunks.add(chunkKey);
+      try {
+        for (const memento of await this.archive.takeChunk(chunkKey)) {
+          // A cell changed since it was paged out keeps its newer state
+          if (this.engine.world.caretaker.hasState(memento.cellKey)) continue;
+
+          this.engine.applyCellMemento(memento);
+          cellKeys.push(memento.cellKey);
+        }
+        this.pagedChunks.delete(chunkKey);
+      } catch (error) {
+        console.warn(`Could not page in chunk ${chunkKey}:`, error);
+      } finally {
+        this.loadingChunks.delete(chunkKey);
+      }
+    }
+
+    if (cellKeys.length > 0) {
+      this.emit({ type: "pagedIn", cellKeys });
+    }
+  }
+}
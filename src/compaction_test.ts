@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import type { MementoArchive } from "./archive.ts";
+import { StorageCompactor } from "./compaction.ts";
+import { CONFIG } from "./config.ts";
+import { GameEngine, GameWorld } from "./engine.ts";
+import { cellToKey, findGridProjection } from "./grid.ts";
+import type { CellMemento } from "./memento.ts";
+import { createModeSession } from "./modes.ts";
+import { ReplayRecorder, verifyReplay } from "./replay.ts";
+import { findRuleset } from "./rulesets.ts";
+import type { ChunkKey, PlayerState, Token } from "./types.ts";
+import { generateCellToken, getSpawnCenter } from "./worldgen.ts";
+
+const grid = findGridProjection("latLng")!;
+
+// Keeps paged chunks in memory instead of IndexedDB
+class MemoryArchive {
+  private chunks = new Map<ChunkKey, CellMemento[]>();
+
+  listChunks(): Promise<ChunkKey[]> {
+    return Promise.resolve(Array.from(this.chunks.keys()));
+  }
+
+  putChunk(chunkKey: ChunkKey, mementos: CellMemento[]): Promise<void> {
+    this.chunks.set(chunkKey, [
+      ...(this.chunks.get(chunkKey) ?? []),
+      ...mementos,
+    ]);
+    return Promise.resolve();
+  }
+
+  takeChunk(chunkKey: ChunkKey): Promise<CellMemento[]> {
+    const mementos = this.chunks.get(chunkKey) ?? [];
+    this.chunks.delete(chunkKey);
+    return Promise.resolve(mementos);
+  }
+
+  clear(): Promise<void> {
+    this.chunks.clear();
+    return Promise.resolve();
+  }
+}
+
+function createEngine(): GameEngine {
+  const ruleset = findRuleset("classic")!;
+  const world = new GameWorld({
+    seed: "compaction-test",
+    ruleset,
+    grid,
+    spawnCenter: getSpawnCenter(grid),
+  });
+  const player: PlayerState = {
+    inventory: new Array<Token | null>(ruleset.inventorySlots).fill(null),
+    activeSlot: 0,
+    location: { ...CONFIG.CLASSROOM_LOCATION },
+    points: 0,
+  };
+  return new GameEngine(world, player);
+}
+
+async function startCompactor(engine: GameEngine): Promise<StorageCompactor> {
+  const compactor = new StorageCompactor(engine, {
+    compactEveryDespawns: 1000,
+    pageOutChunks: 1,
+    pageInChunks: 0,
+  });
+  await compactor.start(new MemoryArchive() as unknown as MementoArchive, true);
+  return compactor;
+}
+
+// Empties a cell a few chunks north of the player that spawned with a token
+function emptyDistantCell(engine: GameEngine): { i: number; j: number } {
+  const { i: playerI, j } = engine.getPlayerCell();
+  for (let i = playerI + 3 * CONFIG.STORAGE.CHUNK_SIZE;; i++) {
+    if (!generateCellToken(i, j, engine.world.generation)) continue;
+    engine.world.caretaker.saveState(
+      cellToKey(i, j),
+      null,
+      engine.world.getTime(),
+    );
+    return { i, j };
+  }
+}
+
+Deno.test("a recording crossing paged cells matches its replay", async () => {
+  const engine = createEngine();
+  const compactor = await startCompactor(engine);
+  const home = { ...engine.player.location };
+  const cell = emptyDistantCell(engine);
+
+  await compactor.compact();
+  assert.equal(compactor.getStats().pagedChunks, 1);
+
+  assert.ok(await compactor.suspendPageOut());
+  assert.equal(compactor.getStats().pagedChunks, 0);
+  const recorder = new ReplayRecorder(
+    engine,
+    createModeSession("freePlay", Date.now()),
+  );
+
+  // Walk to the paged cell, then back; nothing is paged out meanwhile
+  for (const location of [grid.getCellCenter(cell), home]) {
+    engine.movePlayer(location);
+    recorder.record({ type: "moveTo", location });
+  }
+  assert.equal((await compactor.compact()).pagedOutStates, 0);
+
+  const recording = recorder.finish();
+  compactor.resumePageOut();
+  compactor.stop();
+
+  assert.ok(
+    recording.outcome.cells.some((memento) =>
+      memento.cellKey === cellToKey(cell.i, cell.j)
+    ),
+  );
+  assert.deepStrictEqual(verifyReplay(recording), []);
+});
+
+Deno.test("resumed paging pages distant cells out again", async () => {
+  const engine = createEngine();
+  const compactor = await startCompactor(engine);
+  emptyDistantCell(engine);
+
+  await compactor.suspendPageOut();
+  assert.equal((await compactor.compact()).pagedOutStates, 0);
+
+  compactor.resumePageOut();
+  assert.equal((await compactor.compact()).pagedOutStates, 1);
+  compactor.stop();
+});
@@ -0,0 +1,69 @@
+// =============================================
+// CONFIGURATION
+// =============================================
+
+export const CONFIG = {
+  CLASSROOM_LOCATION: { lat: 36.997936938057016, lng: -122.05703507501151 },
+  ZOOM_LEVEL: 19,
+  TILE_DEGREES: 1e-4,
+  VIEWPORT_BUFFER: 2,
+  GRID: {
+    PARAM: "grid",
+    EQUAL_AREA_CELL_METERS: 11, // Cell width and height at the equator
+  },
+  HISTORY_DEPTH: 50,
+  WORLD_TIME_TICK_MS: 10 * 1000, // How often cells in view catch up
+  RULESET_PARAM: "ruleset",
+  SEED_PARAM: "seed",
+  REPLAY_PARAM: "replay",
+  MODE_PARAM: "mode",
+  MODES: {
+    TIMED_DURATION_MS: 5 * 60 * 1000,
+    CLOCK_TICK_MS: 1000,
+  },
+  SAVE: {
+    STORAGE_KEY: "worldOfBits.save",
+    CHUNK_KEY_PREFIX: "worldOfBits.chunk.", // Followed by the chunk key
+  },
+  STORAGE: {
+    CHUNK_SIZE: 16, // Cells per side of a region chunk
+    COMPACT_EVERY_DESPAWNS: 2000,
+    DATABASE_NAME: "worldOfBits",
+    PAGING_PARAM: "paging", // ?paging=off keeps every saved cell in memory
+    PAGE_OUT_CHUNKS: 4, // Saved cells farther away than this leave memory
+    PAGE_IN_CHUNKS: 2, // And come back once the player is this close
+  },
+  CONTROLS: {
+    STORAGE_KEY: "worldOfBits.controls",
+  },
+  THEME: {
+    STORAGE_KEY: "worldOfBits.theme",
+  },
+  TILES: {
+    PARAM: "tiles",
+    STORAGE_KEY: "worldOfBits.tiles",
+  },
+  SYNC: {
+    CHANNEL_NAME: "worldOfBits.sync",
+    RELAY_PARAM: "relay", // e.g. ?relay=ws://localhost:8787
+    PLAYER_ID_KEY: "worldOfBits.playerId", // Session storage, one per tab
+    HEARTBEAT_MS: 5000,
+    PEER_TIMEOUT_MS: 15000,
+    RELAY_RETRY_MS: 3000,
+  },
+  OFFLINE: {
+    SERVICE_WORKER_URL: "sw.js", // Relative to the page, see public/
+    MANIFEST_URL: "manifest.webmanifest",
+  },
+  REPLAY: {
+    STORAGE_KEY: "worldOfBits.replay",
+    STEP_INTERVAL_MS: 500, // At 1x speed
+    SPEEDS: [0.5, 1, 2, 4, 8],
+  },
+  UI: {
+    HIGHLIGHT_DURATION_MS: 500,
+    TOAST_DURATION_MS: 4000,
+    TOOLTIP_CLASS: "cell-tooltip",
+    INVENTORY_CLASS: "inventory-display",
+  },
+} as const;
@@ -0,0 +1,289 @@
+// =============================================
+// INPUT BINDINGS
+// =============================================
+
+export type ControlAction =
+  | "moveNorth"
+  | "moveSouth"
+  | "moveEast"
+  | "moveWest"
+  | "moveCenter"
+  | "cursorNorth"
+  | "cursorSouth"
+  | "cursorEast"
+  | "cursorWest"
+  | "interact";
+
+export interface ControlBindings {
+  keyboard: Record<ControlAction, string[]>; // KeyboardEvent.code values
+  gamepad: Record<ControlAction, number[]>; // Standard gamepad button indices
+}
+
+export const CONTROL_ACTION_LABELS: Record<ControlAction, string> = {
+  moveNorth: "Move north",
+  moveSouth: "Move south",
+  moveEast: "Move east",
+  moveWest: "Move west",
+  moveCenter: "Return to start",
+  cursorNorth: "Cursor north",
+  cursorSouth: "Cursor south",
+  cursorEast: "Cursor east",
+  cursorWest: "Cursor west",
+  interact: "Interact with cursor cell",
+};
+
+export const DEFAULT_BINDINGS: ControlBindings = {
+  keyboard: {
+    moveNorth: ["ArrowUp", "KeyW"],
+    moveSouth: ["ArrowDown", "KeyS"],
+    moveEast: ["ArrowRight", "KeyD"],
+    moveWest: ["ArrowLeft", "KeyA"],
+    moveCenter: ["KeyC"],
+    cursorNorth: ["KeyI"],
+    cursorSouth: ["KeyK"],
+    cursorEast: ["KeyL"],
+    cursorWest: ["KeyJ"],
+    interact: ["Space", "Enter"],
+  },
+  // D-pad moves, the face-button diamond moves the cursor, RB/RT interact
+  gamepad: {
+    moveNorth: [12],
+    moveSouth: [13],
+    moveEast: [15],
+    moveWest: [14],
+    moveCenter: [8],
+    cursorNorth: [3],
+    cursorSouth: [0],
+    cursorEast: [1],
+    cursorWest: [2],
+    interact: [5, 7],
+  },
+};
+
+function cloneBindings(bindings: ControlBindings): ControlBindings {
+  return structuredClone(bindings);
+}
+
+function isBindingList(
+  value: unknown,
+  itemType: "string" | "number",
+): boolean {
+  return Array.isArray(value) &&
+    value.every((item) => typeof item === itemType);
+}
+
+// Missing or malformed actions fall back to their defaults so that adding a
+// new action never invalidates stored bindings
+export function loadBindings(storageKey: string): ControlBindings {
+  const bindings = cloneBindings(DEFAULT_BINDINGS);
+
+  try {
+    const stored = localStorage.getItem(storageKey);
+    if (stored === null) return bindings;
+
+    const parsed = JSON.parse(stored);
+    for (const action of Object.keys(CONTROL_ACTION_LABELS)) {
+      const key = action as ControlAction;
+      if (isBindingList(parsed?.keyboard?.[key], "string")) {
+        bindings.keyboard[key] = parsed.keyboard[key];
+      }
+      if (isBindingList(parsed?.gamepad?.[key], "number")) {
+        bindings.gamepad[key] = parsed.gamepad[key];
+      }
+    }
+  } catch (error) {
+    console.warn("Failed to read control bindings:", error);
+  }
+
+  return bindings;
+}
+
+export function saveBindings(
+  storageKey: string,
+  bindings: ControlBindings,
+): void {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(bindings));
+  } catch (error) {
+    console.warn("Failed to save control bindings:", error);
+  }
+}
+
+// =============================================
+// INPUT CONTROLLER
+// =============================================
+
+// Elements that handle their own keys, such as Space on a button
+const PAGE_CONTROL_SELECTOR = [
+  "input",
+  "select",
+  "textarea",
+  "button",
+  "a[href]",
+  "summary",
+  "[contenteditable]",
+  "dialog[open]",
+].join(", ");
+
+function isPageControl(target: EventTarget | null): boolean {
+  return target instanceof Element &&
+    target.closest(PAGE_CONTROL_SELECTOR) !== null;
+}
+
+type RebindRequest = {
+  device: "keyboard" | "gamepad";
+  action: ControlAction;
+  onDone: () => void;
+};
+
+// Translates keyboard and gamepad input into control actions. Gamepads are
+// polled once per animation frame while at least one is connected.
+export class InputController {
+  private pressedButtons = new Map<number, boolean[]>();
+  private pollHandle: number | null = null;
+  private rebindRequest: RebindRequest | null = null;
+
+  constructor(
+    private bindings: ControlBindings,
+    private onAction: (action: ControlAction) => void,
+    private onBindingsChanged: (bindings: ControlBindings) => void,
+  ) {}
+
+  start(): void {
+    document.addEventListener("keydown", this.handleKeyDown);
+    globalThis.addEventListener("gamepadconnected", this.handleGamepadChange);
+    globalThis.addEventListener(
+      "gamepaddisconnected",
+      this.handleGamepadChange,
+    );
+    this.handleGamepadChange();
+  }
+
+  stop(): void {
+    document.removeEventListener("keydown", this.handleKeyDown);
+    globalThis.removeEventListener(
+      "gamepadconnected",
+      this.handleGamepadChange,
+    );
+    globalThis.removeEventListener(
+      "gamepaddisconnected",
+      this.handleGamepadChange,
+    );
+    this.stopPolling();
+  }
+
+  getBindings(): ControlBindings {
+    return this.bindings;
+  }
+
+  // The next key or gamepad button pressed replaces the action's binding
+  requestRebind(
+    device: RebindRequest["device"],
+    action: ControlAction,
+    onDone: () => void,
+  ): void {
+    this.rebindRequest = { device, action, onDone };
+  }
+
+  resetBindings(): void {
+    this.bindings = cloneBindings(DEFAULT_BINDINGS);
+    this.onBindingsChanged(this.bindings);
+  }
+
+  private finishRebind(binding: string | number): void {
+    const request = this.rebindRequest;
+    if (!request) return;
+
+    if (request.device === "keyboard" && typeof binding === "string") {
+      this.bindings.keyboard[request.action] = [binding];
+    } else if (request.device === "gamepad" && typeof binding === "number") {
+      this.bindings.gamepad[request.action] = [binding];
+    } else {
+      return;
+    }
+
+    this.rebindRequest = null;
+    this.onBindingsChanged(this.bindings);
+    request.onDone();
+  }
+
+  // -------- Keyboard --------
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (this.rebindRequest?.device === "keyboard") {
+      event.preventDefault();
+      if (event.code !== "Escape") {
+        this.finishRebind(event.code);
+      } else {
+        const request = this.rebindRequest;
+        this.rebindRequest = null;
+        request.onDone();
+      }
+      return;
+    }
+
+    // Leave shortcuts, focused controls and open dialogs alone
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+    if (isPageControl(event.target)) return;
+
+    const action = this.findAction(this.bindings.keyboard, event.code);
+    if (!action) return;
+
+    event.preventDefault();
+    this.onAction(action);
+  };
+
+  // -------- Gamepad --------
+
+  private handleGamepadChange = (): void => {
+    const hasGamepad = navigator.getGamepads().some((pad) => pad !== null);
+    if (hasGamepad && this.pollHandle === null) {
+      this.pollHandle = requestAnimationFrame(this.pollGamepads);
+    } else if (!hasGamepad) {
+      this.stopPolling();
+    }
+  };
+
+  private stopPolling(): void {
+    if (this.pollHandle !== null) {
+      cancelAnimationFrame(this.pollHandle);
+      this.pollHandle = null;
+    }
+    this.pressedButtons.clear();
+  }
+
+  private pollGamepads = (): void => {
+    for (const pad of navigator.getGamepads()) {
+      if (!pad) continue;
+
+      const previous = this.pressedButtons.get(pad.index) ?? [];
+      const current = pad.buttons.map((button) => button.pressed);
+
+      // Only act on the frame a button goes down
+      current.forEach((pressed, button) => {
+        if (!pressed || previous[button]) return;
+
+        if (this.rebindRequest?.device === "gamepad") {
+          this.finishRebind(button);
+          return;
+        }
+        const action = this.findAction(this.bindings.gamepad, button);
+        if (action) this.onAction(action);
+      });
+
+      this.pressedButtons.set(pad.index, current);
+    }
+
+    this.pollHandle = requestAnimationFrame(this.pollGamepads);
+  };
+
+  private findAction<T>(
+    bindings: Record<ControlAction, T[]>,
+    input: T,
+  ): ControlAction | null {
+    for (const [action, inputs] of Object.entries(bindings)) {
+      if ((inputs as T[]).includes(input)) return action as ControlAction;
+    }
+    return null;
+  }
+}
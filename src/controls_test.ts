@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import {
+  type ControlAction,
+  DEFAULT_BINDINGS,
+  InputController,
+} from "./controls.ts";
+
+// Just enough of the DOM for the controller: a document to listen on and
+// elements that answer closest() for the selectors they match
+class FakeElement extends EventTarget {
+  constructor(private matches: string[]) {
+    super();
+  }
+
+  closest(selectors: string): FakeElement | null {
+    const wanted = selectors.split(",").map((selector) => selector.trim());
+    return this.matches.some((match) => wanted.includes(match)) ? this : null;
+  }
+}
+
+function withFakeDocument(test: (document: EventTarget) => void): void {
+  const document = new EventTarget();
+  const globals = {
+    document,
+    Element: FakeElement,
+    navigator: { getGamepads: () => [] },
+  };
+  const saved = Object.keys(globals).map((name) =>
+    [
+      name,
+      Object.getOwnPropertyDescriptor(globalThis, name),
+    ] as const
+  );
+
+  for (const [name, value] of Object.entries(globals)) {
+    Object.defineProperty(globalThis, name, { value, configurable: true });
+  }
+  try {
+    test(document);
+  } finally {
+    for (const [name, descriptor] of saved) {
+      if (descriptor) Object.defineProperty(globalThis, name, descriptor);
+      else delete (globalThis as Record<string, unknown>)[name];
+    }
+  }
+}
+
+// Presses `code` with focus on `target`
+function pressKey(document: EventTarget, code: string, target: FakeElement) {
+  const event = new Event("keydown", { cancelable: true });
+  Object.defineProperties(event, {
+    code: { value: code },
+    target: { value: target },
+  });
+  document.dispatchEvent(event);
+  return event;
+}
+
+function startController(): ControlAction[] {
+  const actions: ControlAction[] = [];
+  const controller = new InputController(
+    structuredClone(DEFAULT_BINDINGS),
+    (action) => actions.push(action),
+    () => {},
+  );
+  controller.start();
+  return actions;
+}
+
+Deno.test("keys on the page drive the game", () => {
+  withFakeDocument((document) => {
+    const actions = startController();
+    const event = pressKey(document, "Space", new FakeElement([]));
+
+    assert.deepStrictEqual(actions, ["interact"]);
+    assert.ok(event.defaultPrevented);
+  });
+});
+
+Deno.test("Space on a focused button is left to the button", () => {
+  withFakeDocument((document) => {
+    const actions = startController();
+    const event = pressKey(document, "Space", new FakeElement(["button"]));
+
+    assert.deepStrictEqual(actions, []);
+    assert.ok(!event.defaultPrevented);
+  });
+});
+
+Deno.test("keys inside an open dialog do not move the player", () => {
+  withFakeDocument((document) => {
+    const actions = startController();
+    pressKey(document, "ArrowUp", new FakeElement(["dialog[open]"]));
+
+    assert.deepStrictEqual(actions, []);
+  });
+});
@@ -0,0 +1,572 @@
+import { CONFIG } from "./config.ts";
+import {
+  CellFlyweightFactory,
+  cellToKey,
+  type GridProjection,
+  keyToCell,
+} from "./grid.ts";
+import {
+  ActionHistory,
+  type ActionSnapshot,
+  createActionSnapshot,
+  restoreActionSnapshot,
+} from "./history.ts";
+import { CellCaretaker, type CellMemento } from "./memento.ts";
+import type { Ruleset } from "./rulesets.ts";
+import {
+  combineTokens,
+  describeToken,
+  findRecipe,
+  isSameToken,
+} from "./tokens.ts";
+import type {
+  CellCoordinates,
+  CellKey,
+  GridCell,
+  PlayerState,
+  Token,
+  WorldCoordinates,
+} from "./types.ts";
+import { generateCellToken, type WorldGenOptions } from "./worldgen.ts";
+import { advanceCellState } from "./worldtime.ts";
+
+// =============================================
+// GAME EVENTS
+// =============================================
+
+export type CellAction = "pickup" | "drop" | "merge" | "invalid" | "outOfRange";
+
+export type HistoryResult = "applied" | "empty" | "outOfRange";
+
+export type GameEvent =
+  | { type: "cellSpawned"; cell: GridCell }
+  | { type: "cellDespawned"; cell: GridCell }
+  | { type: "cellChanged"; cell: GridCell }
+  | { type: "cellInteraction"; cell: GridCell; action: CellAction }
+  | { type: "playerMoved"; location: WorldCoordinates }
+  | {
+    type: "inventoryChanged";
+    inventory: (Token | null)[];
+    activeSlot: number;
+  }
+  | { type: "pointsChanged"; points: number }
+  | { type: "historyChanged"; canUndo: boolean; canRedo: boolean };
+
+export type GameEventListener = (event: GameEvent) => void;
+
+// =============================================
+// TOKEN RULES
+// =============================================
+
+export function hasToken(cell: GridCell): boolean {
+  return cell.token !== null;
+}
+
+export function canMergeTokens(
+  heldToken: Token,
+  cellToken: Token,
+  ruleset: Ruleset,
+): boolean {
+  return findRecipe(ruleset.recipes, heldToken, cellToken) !== null;
+}
+
+export interface MergeResult {
+  token: Token;
+  points: number;
+}
+
+// Returns null when no recipe in the ruleset combines the two tokens
+export function mergeTokens(
+  heldToken: Token,
+  cellToken: Token,
+  ruleset: Ruleset,
+): MergeResult | null {
+  const token = combineTokens(ruleset.recipes, heldToken, cellToken);
+  if (!token) return null;
+
+  console.log(
+    `Merging tokens: ${describeToken(heldToken)} + ` +
+      `${describeToken(cellToken)} = ${describeToken(token)}`,
+  );
+  return {
+    token,
+    points: Math.round(token.value * ruleset.mergeScoreMultiplier),
+  };
+}
+
+// =============================================
+// WORLD
+// =============================================
+
+// Owns the cells currently in play. Unmodified cells are regenerated from
+// the world generation options; modified ones are restored from the
+// caretaker and caught up with world time. World time only moves through
+// advanceTime(), so replays can follow the times they recorded.
+export class GameWorld {
+  private activeCells = new Map<CellKey, GridCell>();
+
+  constructor(
+    readonly generation: WorldGenOptions,
+    readonly caretaker = new CellCaretaker(),
+    readonly flyweights = new CellFlyweightFactory(),
+    private time = Date.now(),
+  ) {}
+
+  get ruleset(): Ruleset {
+    return this.generation.ruleset;
+  }
+
+  get grid(): GridProjection {
+    return this.generation.grid;
+  }
+
+  generateToken(i: number, j: number): Token | null {
+    return generateCellToken(i, j, this.generation);
+  }
+
+  getCell(cellKey: CellKey): GridCell | undefined {
+    return this.activeCells.get(cellKey);
+  }
+
+  getActiveCells(): IterableIterator<GridCell> {
+    return this.activeCells.values();
+  }
+
+  getActiveCellCount(): number {
+    return this.activeCells.size;
+  }
+
+  isCellActive(cellKey: CellKey): boolean {
+    return this.activeCells.has(cellKey);
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  // Time never runs backwards. Returns the cells in play that changed.
+  advanceTime(now: number): GridCell[] {
+    this.time = Math.max(this.time, now);
+
+    const changed: GridCell[] = [];
+    for (const [cellKey, cell] of this.activeCells) {
+      const saved = this.caretaker.getState(cellKey);
+      if (!cell.isModified || !saved) continue;
+
+      const state = this.catchUp(saved);
+      if (state === saved) continue;
+
+      const { i, j } = cell.coordinates;
+      cell.isModified = state !== null;
+      cell.token = state
+        ? this.caretaker.restoreState(cellKey)
+        : this.generateToken(i, j);
+      changed.push(cell);
+    }
+    return changed;
+  }
+
+  // Brings a saved state up to world time and stores the result
+  private catchUp(memento: CellMemento): CellMemento | null {
+    const state = advanceCellState(memento, this.time, this.generation);
+    if (!state) {
+      this.caretaker.clearState(memento.cellKey);
+    } else if (state !== memento) {
+      this.caretaker.putState(state);
+    }
+    return state;
+  }
+
+  spawnCell(i: number, j: number): GridCell {
+    const cellKey = cellToKey(i, j);
+    const coordinates = this.flyweights.getFlyweight(i, j);
+
+    // Check for saved state first, otherwise spawn new token
+    const saved = this.caretaker.getState(cellKey);
+    const isModified = saved !== undefined && this.catchUp(saved) !== null;
+    const token = isModified
+      ? this.caretaker.restoreState(cellKey)
+      : this.generateToken(i, j);
+
+    const newCell: GridCell = { coordinates, token, isModified };
+    this.activeCells.set(cellKey, newCell);
+    return newCell;
+  }
+
+  despawnCell(cellKey: CellKey): GridCell | null {
+    const cell = this.activeCells.get(cellKey);
+    if (!cell) return null;
+
+    // Save state if cell was modified, unless it was put back the way it
+    // was generated. A state already saved keeps the time of the change,
+    // which world time counts from.
+    const { i, j } = cell.coordinates;
+    const saved = this.caretaker.getState(cellKey);
+    if (cell.isModified && isSameToken(cell.token, this.generateToken(i, j))) {
+      this.caretaker.clearState(cellKey);
+    } else if (
+      cell.isModified && !(saved && isSameToken(saved.token, cell.token))
+    ) {
+      this.caretaker.saveState(cellKey, cell.token, this.time);
+    }
+
+    this.activeCells.delete(cellKey);
+    return cell;
+  }
+
+  // A memento holding the generated token records nothing worth keeping
+  isGeneratedState(memento: CellMemento): boolean {
+    const { i, j } = keyToCell(memento.cellKey);
+    return isSameToken(memento.token, this.generateToken(i, j));
+  }
+
+  // Forgets the mementos of cells out of play that match their generated
+  // token. Returns how many were dropped.
+  dropGeneratedStates(): number {
+    let dropped = 0;
+    for (const memento of this.caretaker.getLoadedStates().values()) {
+      if (
+        !this.isCellActive(memento.cellKey) && this.isGeneratedState(memento)
+      ) {
+        this.caretaker.clearState(memento.cellKey);
+        dropped++;
+      }
+    }
+    return dropped;
+  }
+
+  // Returns how many flyweights were released
+  evictInactiveFlyweights(): number {
+    return this.flyweights.evictExcept(new Set(this.activeCells.keys()));
+  }
+
+  // Function to mark cell as modified and save state
+  markCellAsModified(cell: GridCell): void {
+    cell.isModified = true;
+    this.caretaker.saveState(
+      cellToKey(cell.coordinates.i, cell.coordinates.j),
+      cell.token,
+      this.time,
+    );
+  }
+}
+
+// =============================================
+// GAME ENGINE
+// =============================================
+
+// Applies the game rules to a world and a player. It never touches the DOM
+// or the map: everything observable is reported through subscribe().
+export class GameEngine {
+  private listeners = new Set<GameEventListener>();
+
+  constructor(
+    readonly world: GameWorld,
+    readonly player: PlayerState,
+    readonly history = new ActionHistory(CONFIG.HISTORY_DEPTH),
+  ) {}
+
+  subscribe(listener: GameEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emit(event: GameEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+
+  get ruleset(): Ruleset {
+    return this.world.ruleset;
+  }
+
+  getPlayerCell(): CellCoordinates {
+    return this.world.grid.worldToCell(this.player.location);
+  }
+
+  // -------- Visibility --------
+
+  // Cells past the antimeridian are wrapped back into the grid's canonical
+  // columns
+  updateVisibleCells(visibleCells: Iterable<CellCoordinates>): void {
+    const currentlyVisible = new Set<CellKey>();
+
+    for (const visible of visibleCells) {
+      const coordinates = this.world.grid.normalizeCell(visible);
+      const cellKey = cellToKey(coordinates.i, coordinates.j);
+      currentlyVisible.add(cellKey);
+
+      if (!this.world.isCellActive(cellKey)) {
+        const cell = this.world.spawnCell(coordinates.i, coordinates.j);
+        this.emit({ type: "cellSpawned", cell });
+      }
+    }
+
+    for (const cell of Array.from(this.world.getActiveCells())) {
+      const cellKey = cellToKey(cell.coordinates.i, cell.coordinates.j);
+      if (!currentlyVisible.has(cellKey)) {
+        this.world.despawnCell(cellKey);
+        this.emit({ type: "cellDespawned", cell });
+      }
+    }
+  }
+
+  // Cells out of play catch up when they next spawn
+  advanceWorldTime(now: number): void {
+    for (const cell of this.world.advanceTime(now)) {
+      this.emit({ type: "cellChanged", cell });
+    }
+  }
+
+  // Restores every active cell to its generated token and forgets all
+  // saved cell states
+  resetModifiedCells(): void {
+    this.world.caretaker.clearAllStates();
+
+    for (const cell of this.world.getActiveCells()) {
+      if (!cell.isModified) continue;
+
+      cell.isModified = false;
+      cell.token = this.world.generateToken(
+        cell.coordinates.i,
+        cell.coordinates.j,
+      );
+      this.emit({ type: "cellChanged", cell });
+    }
+
+    // Recorded actions may refer to cell contents that no longer exist
+    this.clearHistory();
+  }
+
+  // Makes sure a cell is in play even if it lies outside the visible range,
+  // e.g. when a replay acts on it before the map has caught up
+  activateCell(i: number, j: number): GridCell {
+    const existing = this.world.getCell(cellToKey(i, j));
+    if (existing) return existing;
+
+    const cell = this.world.spawnCell(i, j);
+    this.emit({ type: "cellSpawned", cell });
+    return cell;
+  }
+
+  // Adopts a cell state made outside this engine, e.g. by another player.
+  // Undo entries for the cell are kept, so undoing may overwrite it again.
+  applyCellMemento(memento: CellMemento): void {
+    this.world.caretaker.putState(memento);
+
+    const cell = this.world.getCell(memento.cellKey);
+    if (!cell) return;
+
+    cell.token = memento.token ? { ...memento.token } : null;
+    cell.isModified = true;
+    this.emit({ type: "cellChanged", cell });
+  }
+
+  // -------- Movement --------
+
+  movePlayer(location: WorldCoordinates): void {
+    this.player.location = { lat: location.lat, lng: location.lng };
+    this.emit({ type: "playerMoved", location: this.player.location });
+  }
+
+  // -------- Queries --------
+
+  isCellInteractable(cell: GridCell): boolean {
+    const distance = this.world.grid.cellDistance(
+      this.getPlayerCell(),
+      cell.coordinates,
+    );
+    return distance <= this.ruleset.interactionRange;
+  }
+
+  getActiveToken(): Token | null {
+    return this.player.inventory[this.player.activeSlot] ?? null;
+  }
+
+  isPlayerHoldingToken(): boolean {
+    return this.getActiveToken() !== null;
+  }
+
+  isMergeTarget(cell: GridCell): boolean {
+    const heldToken = this.getActiveToken();
+    return this.isCellInteractable(cell) &&
+      hasToken(cell) &&
+      heldToken !== null &&
+      canMergeTokens(heldToken, cell.token!, this.ruleset);
+  }
+
+  canPickupToken(cell: GridCell): boolean {
+    return this.isCellInteractable(cell) && hasToken(cell) &&
+      !this.isPlayerHoldingToken();
+  }
+
+  getHighestTokenValue(): number {
+    let highest = 0;
+    for (const cell of this.world.getActiveCells()) {
+      if (cell.token && cell.token.value > highest) {
+        highest = cell.token.value;
+      }
+    }
+    for (const token of this.player.inventory) {
+      if (token && token.value > highest) {
+        highest = token.value;
+      }
+    }
+    return highest;
+  }
+
+  // -------- Actions --------
+
+  selectSlot(slot: number): boolean {
+    if (slot < 0 || slot >= this.player.inventory.length) return false;
+
+    this.player.activeSlot = slot;
+    this.emitInventoryChanged();
+    return true;
+  }
+
+  private setActiveToken(token: Token | null): void {
+    this.player.inventory[this.player.activeSlot] = token;
+  }
+
+  private emitInventoryChanged(): void {
+    this.emit({
+      type: "inventoryChanged",
+      inventory: this.player.inventory,
+      activeSlot: this.player.activeSlot,
+    });
+  }
+
+  pickupTokenFromCell(cell: GridCell): boolean {
+    if (!this.canPickupToken(cell)) {
+      console.warn("Cannot pickup token from cell:", cell);
+      return false;
+    }
+
+    this.setActiveToken(cell.token);
+    cell.token = null;
+    this.world.markCellAsModified(cell);
+
+    this.emit({ type: "cellChanged", cell });
+    this.emitInventoryChanged();
+    return true;
+  }
+
+  attemptMerge(cell: GridCell): boolean {
+    const heldToken = this.getActiveToken();
+    if (!heldToken || !cell.token) return false;
+    const result = mergeTokens(heldToken, cell.token, this.ruleset);
+    if (!result) return false;
+
+    const { token: newToken, points } = result;
+    cell.token = newToken;
+    this.setActiveToken(null);
+    this.player.points += points;
+    this.world.markCellAsModified(cell);
+
+    this.emit({ type: "cellChanged", cell });
+    this.emitInventoryChanged();
+    this.emit({ type: "pointsChanged", points: this.player.points });
+
+    console.log(`Successful merge. New token: ${describeToken(newToken)}`);
+    return true;
+  }
+
+  dropTokenToCell(cell: GridCell): boolean {
+    const heldToken = this.getActiveToken();
+    if (!this.isCellInteractable(cell) || !heldToken) return false;
+
+    if (cell.token) {
+      return this.attemptMerge(cell);
+    }
+
+    cell.token = heldToken;
+    this.setActiveToken(null);
+    this.world.markCellAsModified(cell);
+
+    this.emit({ type: "cellChanged", cell });
+    this.emitInventoryChanged();
+    return true;
+  }
+
+  // Picks, merges or drops depending on the cell and the inventory
+  interact(cell: GridCell): CellAction {
+    let action: CellAction = "invalid";
+    const cellKey = cellToKey(cell.coordinates.i, cell.coordinates.j);
+    const before = createActionSnapshot(cellKey, cell.token, this.player);
+
+    if (!this.isCellInteractable(cell)) {
+      action = "outOfRange";
+    } else if (hasToken(cell) && !this.isPlayerHoldingToken()) {
+      if (this.pickupTokenFromCell(cell)) action = "pickup";
+    } else if (hasToken(cell) && this.isPlayerHoldingToken()) {
+      if (this.attemptMerge(cell)) action = "merge";
+    } else if (!hasToken(cell) && this.isPlayerHoldingToken()) {
+      if (this.dropTokenToCell(cell)) action = "drop";
+    }
+
+    if (action === "pickup" || action === "drop" || action === "merge") {
+      this.history.record({
+        action,
+        cellKey,
+        before,
+        after: createActionSnapshot(cellKey, cell.token, this.player),
+      });
+      this.emitHistoryChanged();
+    }
+
+    this.emit({ type: "cellInteraction", cell, action });
+    return action;
+  }
+
+  // -------- History --------
+
+  undo(): HistoryResult {
+    const entry = this.history.peekUndo();
+    if (!entry) return "empty";
+
+    const cell = this.world.getCell(entry.cellKey);
+    if (!cell || !this.isCellInteractable(cell)) return "outOfRange";
+
+    this.applySnapshot(cell, entry.before);
+    this.history.stepBack();
+    this.emitHistoryChanged();
+    return "applied";
+  }
+
+  redo(): HistoryResult {
+    const entry = this.history.peekRedo();
+    if (!entry) return "empty";
+
+    const cell = this.world.getCell(entry.cellKey);
+    if (!cell || !this.isCellInteractable(cell)) return "outOfRange";
+
+    this.applySnapshot(cell, entry.after);
+    this.history.stepForward();
+    this.emitHistoryChanged();
+    return "applied";
+  }
+
+  clearHistory(): void {
+    this.history.clear();
+    this.emitHistoryChanged();
+  }
+
+  private applySnapshot(cell: GridCell, snapshot: ActionSnapshot): void {
+    cell.token = restoreActionSnapshot(snapshot, this.player);
+    this.world.markCellAsModified(cell);
+
+    this.emit({ type: "cellChanged", cell });
+    this.emitInventoryChanged();
+    this.emit({ type: "pointsChanged", points: this.player.points });
+  }
+
+  private emitHistoryChanged(): void {
+    this.emit({
+      type: "historyChanged",
+      canUndo: this.history.canUndo(),
+      canRedo: this.history.canRedo(),
+    });
+  }
+}
@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import { CONFIG } from "./config.ts";
+import { GameEngine, GameWorld } from "./engine.ts";
+import { findGridProjection } from "./grid.ts";
+import { createModeSession, findGameMode, ModeController } from "./modes.ts";
+import { defineRuleset, findRuleset, type Ruleset } from "./rulesets.ts";
+import type { GridCell, PlayerState, Token } from "./types.ts";
+import { getSpawnCenter } from "./worldgen.ts";
+
+const grid = findGridProjection("latLng")!;
+
+function createEngine(ruleset = findRuleset("classic")!): GameEngine {
+  const world = new GameWorld({
+    seed: "engine-test",
+    ruleset,
+    grid,
+    spawnCenter: getSpawnCenter(grid),
+  });
+  const player: PlayerState = {
+    inventory: new Array<Token | null>(ruleset.inventorySlots).fill(null),
+    activeSlot: 0,
+    location: { ...CONFIG.CLASSROOM_LOCATION },
+    points: 0,
+  };
+  return new GameEngine(world, player);
+}
+
+// A cell `rows` north and `columns` east of the player holding `token`
+function placeCell(
+  engine: GameEngine,
+  rows: number,
+  columns: number,
+  token: Token | null,
+): GridCell {
+  const playerCell = engine.getPlayerCell();
+  const cell = engine.activateCell(
+    playerCell.i + rows,
+    playerCell.j + columns,
+  );
+  cell.token = token;
+  return cell;
+}
+
+Deno.test("picking up moves the cell's token into the active slot", () => {
+  const engine = createEngine();
+  const cell = placeCell(engine, 1, 0, { kind: "bit", value: 2 });
+
+  assert.deepStrictEqual(engine.interact(cell), "pickup");
+  assert.deepStrictEqual(cell.token, null);
+  assert.deepStrictEqual(engine.getActiveToken(), { kind: "bit", value: 2 });
+  assert(cell.isModified);
+});
+
+Deno.test("dropping puts the held token on an empty cell", () => {
+  const engine = createEngine();
+  const source = placeCell(engine, 0, 1, { kind: "bit", value: 1 });
+  const target = placeCell(engine, 0, -1, null);
+
+  engine.interact(source);
+  assert.deepStrictEqual(engine.interact(target), "drop");
+  assert.deepStrictEqual(target.token, { kind: "bit", value: 1 });
+  assert.deepStrictEqual(engine.getActiveToken(), null);
+});
+
+Deno.test("merging equal tokens doubles the value and scores it", () => {
+  const engine = createEngine();
+  const source = placeCell(engine, 1, 1, { kind: "bit", value: 4 });
+  const target = placeCell(engine, -1, -1, { kind: "bit", value: 4 });
+
+  engine.interact(source);
+  assert.deepStrictEqual(engine.interact(target), "merge");
+  assert.deepStrictEqual(target.token, { kind: "bit", value: 8 });
+  assert.deepStrictEqual(engine.getActiveToken(), null);
+  assert.deepStrictEqual(engine.player.points, 8);
+});
+
+Deno.test("tokens without a recipe do not merge", () => {
+  const engine = createEngine();
+  const source = placeCell(engine, 1, 0, { kind: "bit", value: 2 });
+  const target = placeCell(engine, -1, 0, { kind: "bit", value: 4 });
+
+  engine.interact(source);
+  assert.deepStrictEqual(engine.interact(target), "invalid");
+  assert.deepStrictEqual(target.token, { kind: "bit", value: 4 });
+  assert.deepStrictEqual(engine.getActiveToken(), { kind: "bit", value: 2 });
+  assert.deepStrictEqual(engine.player.points, 0);
+});
+
+Deno.test("cells beyond the interaction range cannot be used", () => {
+  const engine = createEngine();
+  const range = engine.ruleset.interactionRange;
+  const edge = placeCell(engine, range, -range, { kind: "bit", value: 1 });
+  const beyond = placeCell(engine, 0, range + 1, { kind: "bit", value: 1 });
+
+  assert(engine.isCellInteractable(edge));
+  assert(!engine.isCellInteractable(beyond));
+  assert.deepStrictEqual(engine.interact(beyond), "outOfRange");
+  assert.deepStrictEqual(beyond.token, { kind: "bit", value: 1 });
+  assert.deepStrictEqual(engine.getActiveToken(), null);
+});
+
+Deno.test("merging the goal token wins a free play game", () => {
+  const ruleset: Ruleset = defineRuleset({
+    ...findRuleset("classic")!,
+    id: "engine-test",
+    victoryThreshold: 8,
+  });
+  const engine = createEngine(ruleset);
+  const controller = new ModeController(
+    engine,
+    findGameMode("freePlay")!,
+    createModeSession("freePlay", Date.now()),
+  );
+  const ended: string[] = [];
+  controller.subscribe((event) => {
+    if (event.type === "ended") ended.push(event.summary.title);
+  });
+  controller.start();
+
+  const first = placeCell(engine, 1, 0, { kind: "bit", value: 2 });
+  const second = placeCell(engine, 2, 0, { kind: "bit", value: 2 });
+  engine.interact(first);
+  engine.interact(second);
+  assert(!controller.isOver());
+
+  const third = placeCell(engine, 0, 2, { kind: "bit", value: 4 });
+  engine.interact(third);
+  assert.deepStrictEqual(engine.interact(second), "merge");
+  assert.deepStrictEqual(second.token, { kind: "bit", value: 8 });
+  assert(controller.isOver());
+  assert.deepStrictEqual(ended.length, 1);
+  controller.stop();
+});
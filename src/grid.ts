@@ -0,0 +1,579 @@
+import { CONFIG } from "./config.ts";
+import type {
+  CellCoordinates,
+  CellKey,
+  ChunkKey,
+  WorldBounds,
+  WorldCoordinates,
+} from "./types.ts";
+
+// =============================================
+// GRID PROJECTIONS
+// =============================================
+
+export type GridProjectionId = "latLng" | "equalArea" | "hex";
+
+// Maps the globe onto cells. Cell (0, 0) sits at Null Island (0°, 0°) and i
+// grows to the north. Columns wrap around the antimeridian: worldToCell and
+// normalizeCell only return cells in the canonical column range, while
+// outlines accept any column so that ranges crossing ±180° stay contiguous.
+// Outlines run counter-clockwise.
+export interface GridProjection {
+  id: GridProjectionId;
+  name: string;
+  description: string;
+  columns: number; // Around the whole globe
+  worldToCell(location: WorldCoordinates): CellCoordinates;
+  getCellOutline(cell: CellCoordinates): WorldCoordinates[];
+  getCellCenter(cell: CellCoordinates): WorldCoordinates;
+  normalizeCell(cell: CellCoordinates): CellCoordinates;
+  cellDistance(a: CellCoordinates, b: CellCoordinates): number;
+  // Where `to` lies from `from` the short way around the globe: i rows
+  // north and j cell widths east. Hex offsets come in half widths.
+  getOffset(from: CellCoordinates, to: CellCoordinates): CellCoordinates;
+  getNeighbors(cell: CellCoordinates): CellCoordinates[];
+  getCellsInRadius(center: CellCoordinates, radius: number): CellCoordinates[];
+  getRangeOutline(center: CellCoordinates, radius: number): WorldCoordinates[]; // Around getCellsInRadius
+  // Every cell overlapping the bounds, plus `buffer` cells around them. The
+  // bounds may run past ±180°.
+  getCellsInBounds(bounds: WorldBounds, buffer: number): CellCoordinates[];
+  // Moves by whole rows (north is positive) and columns (east is positive)
+  step(
+    location: WorldCoordinates,
+    rows: number,
+    columns: number,
+  ): WorldCoordinates;
+}
+
+export function wrapLongitude(lng: number): number {
+  return lng >= -180 && lng < 180 ? lng : ((lng + 180) % 360 + 360) % 360 - 180;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function wrapColumn(column: number, columns: number): number {
+  const half = Math.floor(columns / 2);
+  return ((column + half) % columns + columns) % columns - half;
+}
+
+// Like wrapColumn, for widths that need not be whole
+function wrapWidths(widths: number, columns: number): number {
+  const half = columns / 2;
+  return ((widths + half) % columns + columns) % columns - half;
+}
+
+// Collects normalized cells once each; wide ranges wrap onto themselves
+function collectCells(
+  grid: GridProjection,
+  cells: Iterable<CellCoordinates>,
+): CellCoordinates[] {
+  const collected = new Map<CellKey, CellCoordinates>();
+  for (const cell of cells) {
+    const normalized = grid.normalizeCell(cell);
+    const key = cellToKey(normalized.i, normalized.j);
+    if (!collected.has(key)) collected.set(key, normalized);
+  }
+  return Array.from(collected.values());
+}
+
+const DEGREES = Math.PI / 180;
+const EARTH_RADIUS_METERS = 6_371_008.8; // Mean radius
+
+interface CylindricalGridOptions {
+  id: GridProjectionId;
+  name: string;
+  description: string;
+  columns: number; // Around the whole globe
+  rowHeight: number; // In the units of toY
+  toY(lat: number): number; // Must be increasing, with toY(0) = 0
+  toLat(y: number): number;
+}
+
+// Rows of equal height in some function of latitude and columns of equal
+// width in longitude, so every cell is a lat/lng rectangle whose south-west
+// corner is at (i, j). Distances are Chebyshev distances in cells, taking
+// the short way around the globe.
+class CylindricalGrid implements GridProjection {
+  readonly id: GridProjectionId;
+  readonly name: string;
+  readonly description: string;
+  readonly columns: number;
+  private columnWidth: number;
+  private minRow: number;
+  private maxRow: number;
+
+  constructor(private options: CylindricalGridOptions) {
+    this.id = options.id;
+    this.name = options.name;
+    this.description = options.description;
+    this.columns = options.columns;
+    this.columnWidth = 360 / options.columns;
+    this.minRow = Math.floor(options.toY(-90) / options.rowHeight);
+    this.maxRow = Math.ceil(options.toY(90) / options.rowHeight) - 1;
+  }
+
+  worldToCell(location: WorldCoordinates): CellCoordinates {
+    return this.normalizeCell({
+      i: this.toRow(location.lat),
+      j: Math.floor(wrapLongitude(location.lng) / this.columnWidth),
+    });
+  }
+
+  getCellOutline(cell: CellCoordinates): WorldCoordinates[] {
+    return this.getRectangle(cell.i, cell.i, cell.j, cell.j);
+  }
+
+  getCellCenter(cell: CellCoordinates): WorldCoordinates {
+    return {
+      lat: this.toLat((cell.i + 0.5) * this.options.rowHeight),
+      lng: (cell.j + 0.5) * this.columnWidth,
+    };
+  }
+
+  // Rows stop at the poles; columns wrap
+  normalizeCell(cell: CellCoordinates): CellCoordinates {
+    return {
+      i: clamp(cell.i, this.minRow, this.maxRow),
+      j: wrapColumn(cell.j, this.columns),
+    };
+  }
+
+  cellDistance(a: CellCoordinates, b: CellCoordinates): number {
+    const dj = Math.abs(a.j - b.j) % this.columns;
+    return Math.max(Math.abs(a.i - b.i), Math.min(dj, this.columns - dj));
+  }
+
+  getOffset(from: CellCoordinates, to: CellCoordinates): CellCoordinates {
+    return { i: to.i - from.i, j: wrapColumn(to.j - from.j, this.columns) };
+  }
+
+  getNeighbors(cell: CellCoordinates): CellCoordinates[] {
+    return this.getCellsInRadius(cell, 1).filter((neighbor) =>
+      this.cellDistance(cell, neighbor) > 0
+    );
+  }
+
+  getCellsInRadius(center: CellCoordinates, radius: number): CellCoordinates[] {
+    return this.getCellsInBlock(
+      center.i - radius,
+      center.i + radius,
+      center.j - radius,
+      center.j + radius,
+    );
+  }
+
+  getRangeOutline(center: CellCoordinates, radius: number): WorldCoordinates[] {
+    return this.getRectangle(
+      clamp(center.i - radius, this.minRow, this.maxRow),
+      clamp(center.i + radius, this.minRow, this.maxRow),
+      center.j - radius,
+      center.j + radius,
+    );
+  }
+
+  getCellsInBounds(bounds: WorldBounds, buffer: number): CellCoordinates[] {
+    const { southWest, northEast } = bounds;
+    return this.getCellsInBlock(
+      this.toRow(southWest.lat) - buffer,
+      this.toRow(northEast.lat) + buffer,
+      Math.floor(southWest.lng / this.columnWidth) - buffer,
+      Math.floor(northEast.lng / this.columnWidth) + buffer,
+    );
+  }
+
+  step(
+    location: WorldCoordinates,
+    rows: number,
+    columns: number,
+  ): WorldCoordinates {
+    const lat = rows === 0 ? location.lat : this.toLat(
+      this.options.toY(location.lat) + rows * this.options.rowHeight,
+    );
+    return {
+      lat,
+      lng: wrapLongitude(location.lng + columns * this.columnWidth),
+    };
+  }
+
+  private getCellsInBlock(
+    minI: number,
+    maxI: number,
+    minJ: number,
+    maxJ: number,
+  ): CellCoordinates[] {
+    const cells: CellCoordinates[] = [];
+    for (
+      let i = Math.max(minI, this.minRow);
+      i <= Math.min(maxI, this.maxRow);
+      i++
+    ) {
+      for (let j = minJ; j <= maxJ; j++) cells.push({ i, j });
+    }
+    return collectCells(this, cells);
+  }
+
+  // The outline of the cells from (minI, minJ) to (maxI, maxJ)
+  private getRectangle(
+    minI: number,
+    maxI: number,
+    minJ: number,
+    maxJ: number,
+  ): WorldCoordinates[] {
+    const south = this.toLat(minI * this.options.rowHeight);
+    const north = this.toLat((maxI + 1) * this.options.rowHeight);
+    const west = minJ * this.columnWidth;
+    const east = (maxJ + 1) * this.columnWidth;
+    return [
+      { lat: south, lng: west },
+      { lat: south, lng: east },
+      { lat: north, lng: east },
+      { lat: north, lng: west },
+    ];
+  }
+
+  private toRow(lat: number): number {
+    return Math.floor(this.options.toY(lat) / this.options.rowHeight);
+  }
+
+  private toLat(y: number): number {
+    return clamp(this.options.toLat(y), -90, 90);
+  }
+}
+
+// Axial (q, r) offsets of the six neighbors of a hex, counter-clockwise
+// from the east
+const HEX_DIRECTIONS: readonly CellCoordinates[] = [
+  { i: 0, j: 1 },
+  { i: 1, j: 0 },
+  { i: 1, j: -1 },
+  { i: 0, j: -1 },
+  { i: -1, j: 0 },
+  { i: -1, j: 1 },
+];
+
+// Corners of a hex counter-clockwise from the south-east one, in half
+// widths east and quarter heights north of its center
+const HEX_CORNERS: readonly [number, number][] = [
+  [1, -1],
+  [1, 1],
+  [0, 2],
+  [-1, 1],
+  [-1, -1],
+  [0, -2],
+];
+
+function parity(row: number): number {
+  return ((row % 2) + 2) % 2;
+}
+
+// Pointy-topped hexes in axial coordinates laid flat on lat/lng degrees:
+// i is the row r, growing to the north, and j is q, along the rows. Each
+// row sits half a hex east of the one below it. Distances count the hex
+// steps between cells.
+class HexGrid implements GridProjection {
+  readonly id = "hex";
+  readonly name = "Hex Grid";
+  readonly description =
+    "Six-sided cells; every neighbor is the same single step away.";
+  readonly columns: number;
+  private width: number; // In degrees of longitude
+  private rowHeight: number; // In degrees of latitude, 3/4 of a hex
+  private maxRow: number;
+
+  constructor(width: number) {
+    this.columns = Math.round(360 / width);
+    this.width = 360 / this.columns;
+    this.rowHeight = this.width * Math.sqrt(3) / 2;
+    this.maxRow = Math.floor(90 / this.rowHeight);
+  }
+
+  worldToCell(location: WorldCoordinates): CellCoordinates {
+    const r = location.lat / this.rowHeight;
+    const q = wrapLongitude(location.lng) / this.width - r / 2;
+
+    // Round in cube coordinates, then fix the component that moved most
+    let roundedQ = Math.round(q);
+    let roundedR = Math.round(r);
+    const s = -q - r;
+    const roundedS = Math.round(s);
+    const dq = Math.abs(roundedQ - q);
+    const dr = Math.abs(roundedR - r);
+    const ds = Math.abs(roundedS - s);
+    if (dq > dr && dq > ds) {
+      roundedQ = -roundedR - roundedS;
+    } else if (dr > ds) {
+      roundedR = -roundedQ - roundedS;
+    }
+    return this.normalizeCell({ i: roundedR, j: roundedQ });
+  }
+
+  getCellOutline(cell: CellCoordinates): WorldCoordinates[] {
+    return this.getCorners(cell).map(([x, y]) => this.toWorld(x, y));
+  }
+
+  getCellCenter(cell: CellCoordinates): WorldCoordinates {
+    return {
+      lat: cell.i * this.rowHeight,
+      lng: (cell.j + cell.i / 2) * this.width,
+    };
+  }
+
+  // Rows stop at the poles; positions along a row wrap
+  normalizeCell(cell: CellCoordinates): CellCoordinates {
+    const i = clamp(cell.i, -this.maxRow, this.maxRow);
+    const shift = Math.floor(i / 2);
+    return { i, j: wrapColumn(cell.j + shift, this.columns) - shift };
+  }
+
+  // Going once around the globe changes q by `columns`, so the short way
+  // is one of the nearest such turns
+  cellDistance(a: CellCoordinates, b: CellCoordinates): number {
+    const dr = a.i - b.i;
+    const dq = a.j - b.j;
+    const turns = Math.round((dq + dr / 2) / this.columns);
+    let distance = Infinity;
+    for (let turn = turns - 1; turn <= turns + 1; turn++) {
+      const wrapped = dq - turn * this.columns;
+      distance = Math.min(
+        distance,
+        (Math.abs(wrapped) + Math.abs(dr) + Math.abs(wrapped + dr)) / 2,
+      );
+    }
+    return distance;
+  }
+
+  // Each row north moves half a width east along the row's q axis
+  getOffset(from: CellCoordinates, to: CellCoordinates): CellCoordinates {
+    const rows = to.i - from.i;
+    return {
+      i: rows,
+      j: wrapWidths(to.j - from.j + rows / 2, this.columns),
+    };
+  }
+
+  getNeighbors(cell: CellCoordinates): CellCoordinates[] {
+    return collectCells(
+      this,
+      HEX_DIRECTIONS
+        .map((direction) => ({
+          i: cell.i + direction.i,
+          j: cell.j + direction.j,
+        }))
+        .filter((neighbor) => this.isRowInRange(neighbor.i)),
+    ).filter((neighbor) => this.cellDistance(cell, neighbor) > 0);
+  }
+
+  getCellsInRadius(center: CellCoordinates, radius: number): CellCoordinates[] {
+    return collectCells(this, this.getHexagon(center, radius));
+  }
+
+  // Traces the edges that only one cell of the range has
+  getRangeOutline(center: CellCoordinates, radius: number): WorldCoordinates[] {
+    const edges = new Map<string, [number, number]>();
+    for (const cell of this.getHexagon(center, radius)) {
+      const corners = this.getCorners(cell);
+      corners.forEach((from, index) => {
+        const to = corners[(index + 1) % corners.length];
+        const reverse = `${to}>${from}`;
+        if (edges.has(reverse)) {
+          edges.delete(reverse);
+        } else {
+          edges.set(`${from}>${to}`, to);
+        }
+      });
+    }
+
+    const next = new Map<string, [number, number]>();
+    for (const [edge, to] of edges) next.set(edge.split(">")[0], to);
+
+    const outline: WorldCoordinates[] = [];
+    let corner = next.keys().next().value;
+    while (corner !== undefined && outline.length < next.size) {
+      const to = next.get(corner)!;
+      outline.push(this.toWorld(to[0], to[1]));
+      corner = `${to}`;
+    }
+    return outline;
+  }
+
+  getCellsInBounds(bounds: WorldBounds, buffer: number): CellCoordinates[] {
+    const { southWest, northEast } = bounds;
+    const minR = Math.max(
+      Math.floor(southWest.lat / this.rowHeight) - buffer,
+      -this.maxRow,
+    );
+    const maxR = Math.min(
+      Math.ceil(northEast.lat / this.rowHeight) + buffer,
+      this.maxRow,
+    );
+
+    const cells: CellCoordinates[] = [];
+    for (let r = minR; r <= maxR; r++) {
+      const minQ = Math.floor(southWest.lng / this.width - r / 2) - buffer;
+      const maxQ = Math.ceil(northEast.lng / this.width - r / 2) + buffer;
+      for (let q = minQ; q <= maxQ; q++) cells.push({ i: r, j: q });
+    }
+    return collectCells(this, cells);
+  }
+
+  // A row north or south is half a hex east or west. The side alternates
+  // with the row, so walking straight north zigzags on the spot and a step
+  // back always undoes the last one.
+  step(
+    location: WorldCoordinates,
+    rows: number,
+    columns: number,
+  ): WorldCoordinates {
+    let { lat, lng } = location;
+    for (let moved = 0; moved < Math.abs(rows); moved++) {
+      const row = this.worldToCell({ lat, lng }).i;
+      const north = rows > 0;
+      const lowerRow = north ? row : row - 1;
+      const eastward = parity(lowerRow) === 0 ? 1 : -1;
+      lat = clamp(lat + (north ? 1 : -1) * this.rowHeight, -90, 90);
+      lng += (north ? 1 : -1) * eastward * this.width / 2;
+    }
+    return { lat, lng: wrapLongitude(lng + columns * this.width) };
+  }
+
+  private isRowInRange(row: number): boolean {
+    return row >= -this.maxRow && row <= this.maxRow;
+  }
+
+  // Every cell within `radius` steps, unwrapped, skipping rows past a pole
+  private getHexagon(
+    center: CellCoordinates,
+    radius: number,
+  ): CellCoordinates[] {
+    const cells: CellCoordinates[] = [];
+    for (let dr = -radius; dr <= radius; dr++) {
+      if (!this.isRowInRange(center.i + dr)) continue;
+
+      const minDq = Math.max(-radius, -dr - radius);
+      const maxDq = Math.min(radius, -dr + radius);
+      for (let dq = minDq; dq <= maxDq; dq++) {
+        cells.push({ i: center.i + dr, j: center.j + dq });
+      }
+    }
+    return cells;
+  }
+
+  // Corners on a lattice of half widths and quarter heights, so that the
+  // corners cells share compare exactly
+  private getCorners(cell: CellCoordinates): [number, number][] {
+    const x = 2 * cell.j + cell.i;
+    const y = 3 * cell.i;
+    return HEX_CORNERS.map(([dx, dy]) => [x + dx, y + dy]);
+  }
+
+  private toWorld(x: number, y: number): WorldCoordinates {
+    return {
+      lat: clamp(y * this.rowHeight / 3, -90, 90),
+      lng: x * this.width / 2,
+    };
+  }
+}
+
+export const GRID_PROJECTIONS: readonly GridProjection[] = [
+  // Cells of a fixed size in degrees, as the game has always used. They
+  // shrink from about 11 m wide at the equator to slivers near the poles.
+  new CylindricalGrid({
+    id: "latLng",
+    name: "Lat/Lng Grid",
+    description: "Cells span equal degrees; they narrow toward the poles.",
+    columns: Math.round(360 / CONFIG.TILE_DEGREES),
+    rowHeight: CONFIG.TILE_DEGREES,
+    toY: (lat) => lat,
+    toLat: (y) => y,
+  }),
+  // Lambert cylindrical equal-area: rows are spaced evenly in sin(latitude),
+  // so every cell covers the same ground area
+  new CylindricalGrid({
+    id: "equalArea",
+    name: "Equal-Area Grid",
+    description: "Every cell covers the same ground area, even near the poles.",
+    columns: Math.round(
+      2 * Math.PI * EARTH_RADIUS_METERS / CONFIG.GRID.EQUAL_AREA_CELL_METERS,
+    ),
+    rowHeight: CONFIG.GRID.EQUAL_AREA_CELL_METERS,
+    toY: (lat) => EARTH_RADIUS_METERS * Math.sin(lat * DEGREES),
+    toLat: (y) => Math.asin(clamp(y / EARTH_RADIUS_METERS, -1, 1)) / DEGREES,
+  }),
+  // Hexes as wide as the lat/lng cells
+  new HexGrid(CONFIG.TILE_DEGREES),
+];
+
+export const DEFAULT_GRID_ID: GridProjectionId = "latLng";
+
+export function findGridProjection(id: string): GridProjection | undefined {
+  return GRID_PROJECTIONS.find((grid) => grid.id === id);
+}
+
+// =============================================
+// CELL KEYS
+// =============================================
+
+export function cellToKey(i: number, j: number): CellKey {
+  return `${i},${j}`;
+}
+
+export function keyToCell(cellKey: CellKey): CellCoordinates {
+  const [i, j] = cellKey.split(",").map(Number);
+  return { i, j };
+}
+
+// =============================================
+// REGION CHUNKS
+// =============================================
+
+// Square groups of cells, CONFIG.STORAGE.CHUNK_SIZE cells a side. Chunk
+// coordinates are numbered like cells and keyed the same way.
+export function cellToChunk(i: number, j: number): CellCoordinates {
+  return {
+    i: Math.floor(i / CONFIG.STORAGE.CHUNK_SIZE),
+    j: Math.floor(j / CONFIG.STORAGE.CHUNK_SIZE),
+  };
+}
+
+export function getChunkKey(cellKey: CellKey): ChunkKey {
+  const { i, j } = keyToCell(cellKey);
+  const chunk = cellToChunk(i, j);
+  return cellToKey(chunk.i, chunk.j);
+}
+
+// =============================================
+// FLYWEIGHT PATTERN IMPLEMENTATION
+// =============================================
+
+export class CellFlyweightFactory {
+  private flyweights = new Map<string, CellCoordinates>();
+
+  getFlyweight(i: number, j: number): CellCoordinates {
+    const key = cellToKey(i, j);
+
+    if (!this.flyweights.has(key)) {
+      this.flyweights.set(key, { i, j });
+    }
+
+    return this.flyweights.get(key)!;
+  }
+
+  getFlyweightCount(): number {
+    return this.flyweights.size;
+  }
+
+  // Releases the coordinates of every cell not in `keep`. Cells that come
+  // back into play get fresh ones.
+  evictExcept(keep: ReadonlySet<CellKey>): number {
+    let evicted = 0;
+    for (const key of this.flyweights.keys()) {
+      if (!keep.has(key)) {
+        this.flyweights.delete(key);
+        evicted++;
+      }
+    }
+    return evicted;
+  }
+}
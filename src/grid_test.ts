@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { cellToKey, findGridProjection, type GridProjection } from "./grid.ts";
+
+const CYLINDRICAL_GRIDS: GridProjection[] = ["latLng", "equalArea"].map((id) =>
+  findGridProjection(id)!
+);
+
+function keyOf(grid: GridProjection, lat: number, lng: number): string {
+  const cell = grid.worldToCell({ lat, lng });
+  return cellToKey(cell.i, cell.j);
+}
+
+for (const grid of CYLINDRICAL_GRIDS) {
+  Deno.test(`${grid.id}: ±180° and longitudes past it share cell keys`, () => {
+    assert.equal(keyOf(grid, 10, 180), keyOf(grid, 10, -180));
+    assert.equal(keyOf(grid, 10, 540), keyOf(grid, 10, -180));
+    assert.equal(keyOf(grid, 10, -179.99999), keyOf(grid, 10, 180.00001));
+    assert.equal(keyOf(grid, 10, 12.34567), keyOf(grid, 10, 12.34567 - 720));
+  });
+
+  Deno.test(`${grid.id}: cells beside the antimeridian are neighbors`, () => {
+    const east = grid.worldToCell({ lat: 10, lng: 179.99999 });
+    const west = grid.worldToCell({ lat: 10, lng: -179.99999 });
+
+    assert.notEqual(cellToKey(east.i, east.j), cellToKey(west.i, west.j));
+    assert.equal(grid.cellDistance(east, west), 1);
+    assert.equal(grid.cellDistance(west, east), 1);
+    assert.deepStrictEqual(grid.getOffset(east, west), { i: 0, j: 1 });
+    assert.deepStrictEqual(grid.getOffset(west, east), { i: 0, j: -1 });
+    assert.ok(
+      grid.getNeighbors(east).some((cell) =>
+        cellToKey(cell.i, cell.j) === cellToKey(west.i, west.j)
+      ),
+    );
+  });
+
+  Deno.test(`${grid.id}: normalizing wraps columns and keeps keys canonical`, () => {
+    const cell = grid.worldToCell({ lat: -20, lng: 179.99999 });
+    const wrapped = grid.normalizeCell({ i: cell.i, j: cell.j + 1 });
+
+    assert.deepStrictEqual(
+      wrapped,
+      grid.worldToCell({ lat: -20, lng: -179.99999 }),
+    );
+    assert.deepStrictEqual(
+      grid.normalizeCell({ i: cell.i, j: cell.j + grid.columns }),
+      cell,
+    );
+  });
+
+  Deno.test(`${grid.id}: ranges across the antimeridian wrap without repeats`, () => {
+    const center = grid.worldToCell({ lat: 0.01, lng: 179.99999 });
+    const cells = grid.getCellsInRadius(center, 2);
+    const keys = new Set(cells.map((cell) => cellToKey(cell.i, cell.j)));
+
+    assert.equal(cells.length, 25);
+    assert.equal(keys.size, 25);
+    for (const cell of cells) {
+      assert.ok(grid.cellDistance(center, cell) <= 2);
+      assert.deepStrictEqual(grid.normalizeCell(cell), cell);
+    }
+  });
+
+  Deno.test(`${grid.id}: the view past 180° covers both sides`, () => {
+    const cells = grid.getCellsInBounds({
+      southWest: { lat: 0, lng: 179.9995 },
+      northEast: { lat: 0.0005, lng: 180.0005 },
+    }, 0);
+    const keys = new Set(cells.map((cell) => cellToKey(cell.i, cell.j)));
+
+    assert.equal(keys.size, cells.length);
+    assert.ok(keys.has(keyOf(grid, 0.0001, 179.9999)));
+    assert.ok(keys.has(keyOf(grid, 0.0001, -179.9999)));
+  });
+
+  Deno.test(`${grid.id}: stepping east over the antimeridian wraps`, () => {
+    const start = grid.getCellCenter(
+      grid.worldToCell({ lat: 5, lng: 179.99999 }),
+    );
+    const next = grid.step(start, 0, 1);
+
+    assert.ok(next.lng < -179.9);
+    assert.equal(
+      grid.cellDistance(
+        grid.worldToCell(start),
+        grid.worldToCell(next),
+      ),
+      1,
+    );
+  });
+}
+
+Deno.test("equalArea: rows stop at the poles", () => {
+  const grid = findGridProjection("equalArea")!;
+  const north = grid.worldToCell({ lat: 90, lng: 0 });
+
+  assert.deepStrictEqual(grid.normalizeCell({ i: north.i + 5, j: 0 }), north);
+  assert.equal(grid.getCellsInRadius(north, 1).length, 6);
+});
+
+Deno.test("hex: offsets are in rows and widths, the short way around", () => {
+  const grid = findGridProjection("hex")!;
+  const origin = { i: 0, j: 0 };
+
+  assert.deepStrictEqual(grid.getOffset(origin, { i: 1, j: 0 }), {
+    i: 1,
+    j: 0.5,
+  });
+  assert.deepStrictEqual(grid.getOffset(origin, { i: 1, j: -1 }), {
+    i: 1,
+    j: -0.5,
+  });
+  assert.deepStrictEqual(
+    grid.getOffset(origin, grid.normalizeCell({ i: 0, j: -1 - grid.columns })),
+    { i: 0, j: -1 },
+  );
+  for (const neighbor of grid.getNeighbors(origin)) {
+    assert.equal(grid.cellDistance(origin, neighbor), 1);
+  }
+});
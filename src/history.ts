@@ -0,0 +1,101 @@
+import { type CellMemento, CellOriginator } from "./memento.ts";
+import type { CellKey, PlayerState, Token } from "./types.ts";
+
+// =============================================
+// ACTION HISTORY
+// =============================================
+
+export type HistoryAction = "pickup" | "drop" | "merge";
+
+// Everything a single action can change
+export interface ActionSnapshot {
+  cell: CellMemento;
+  inventory: (Token | null)[];
+  activeSlot: number;
+  points: number;
+}
+
+export interface HistoryEntry {
+  action: HistoryAction;
+  cellKey: CellKey;
+  before: ActionSnapshot;
+  after: ActionSnapshot;
+}
+
+const originator = new CellOriginator();
+
+export function createActionSnapshot(
+  cellKey: CellKey,
+  token: Token | null,
+  player: PlayerState,
+): ActionSnapshot {
+  return {
+    cell: originator.createMemento(cellKey, token),
+    inventory: player.inventory.map((slot) => slot ? { ...slot } : null),
+    activeSlot: player.activeSlot,
+    points: player.points,
+  };
+}
+
+// Restores the player fields of a snapshot and returns the cell's token
+export function restoreActionSnapshot(
+  snapshot: ActionSnapshot,
+  player: PlayerState,
+): Token | null {
+  player.inventory = snapshot.inventory.map((slot) =>
+    slot ? { ...slot } : null
+  );
+  player.activeSlot = snapshot.activeSlot;
+  player.points = snapshot.points;
+  return originator.restoreFromMemento(snapshot.cell).token;
+}
+
+// A bounded undo/redo stack. Recording a new action discards anything that
+// could still have been redone.
+export class ActionHistory {
+  private entries: HistoryEntry[] = [];
+  private cursor = 0; // Number of entries that are currently applied
+
+  constructor(private depth: number) {}
+
+  record(entry: HistoryEntry): void {
+    this.entries.splice(this.cursor);
+    this.entries.push(entry);
+
+    if (this.entries.length > this.depth) {
+      this.entries.splice(0, this.entries.length - this.depth);
+    }
+    this.cursor = this.entries.length;
+  }
+
+  peekUndo(): HistoryEntry | null {
+    return this.cursor > 0 ? this.entries[this.cursor - 1] : null;
+  }
+
+  peekRedo(): HistoryEntry | null {
+    return this.cursor < this.entries.length ? this.entries[this.cursor] : null;
+  }
+
+  // Moves the cursor past the entry returned by peekUndo()
+  stepBack(): void {
+    if (this.cursor > 0) this.cursor--;
+  }
+
+  // Moves the cursor past the entry returned by peekRedo()
+  stepForward(): void {
+    if (this.cursor < this.entries.length) this.cursor++;
+  }
+
+  canUndo(): boolean {
+    return this.peekUndo() !== null;
+  }
+
+  canRedo(): boolean {
+    return this.peekRedo() !== null;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.cursor = 0;
+  }
+}
@@ -2,996 +2,1540 @@
 import leaflet from "leaflet";
 import "leaflet/dist/leaflet.css";
 import "./_leafletWorkaround.ts";
-import luck from "./_luck.ts";
+import {
+  describeInteraction,
+  listNearbyCells,
+  loadThemePreference,
+  saveThemePreference,
+} from "./accessibility.ts";
+import {
+  unlockAchievements,
+  type UnlockedAchievements,
+} from "./achievements.ts";
+import { CONFIG } from "./config.ts";
+import {
+  type ControlAction,
+  InputController,
+  loadBindings,
+  saveBindings,
+} from "./controls.ts";
+import {
+  type CellAction,
+  GameEngine,
+  type GameEvent,
+  GameWorld,
+  type HistoryResult,
+} from "./engine.ts";
+import {
+  cellToKey,
+  DEFAULT_GRID_ID,
+  findGridProjection,
+  GRID_PROJECTIONS,
+  type GridProjection,
+} from "./grid.ts";
+import {
+  ButtonMovementProvider,
+  type Direction,
+  GeolocationMovementProvider,
+  type GeoPosition,
+  type MovementProvider,
+  stepLocation,
+} from "./movement.ts";
+import {
+  createModeSession,
+  DEFAULT_MODE_ID,
+  findGameMode,
+  GAME_MODES,
+  type GameMode,
+  ModeController,
+  type ModeEvent,
+  type ModeSession,
+  type ModeSummary,
+  type WorldChoice,
+} from "./modes.ts";
+import { MementoArchive } from "./archive.ts";
+import { type CompactionReport, StorageCompactor } from "./compaction.ts";
+import { addWebManifest, registerServiceWorker } from "./offline.ts";
+import { type CellThemeId, LeafletRenderer } from "./renderer.ts";
+import {
+  parseReplayRecording,
+  readReplayRecording,
+  ReplayPlayer,
+  ReplayRecorder,
+  type ReplayRecording,
+  type ReplayStep,
+  storeReplayRecording,
+  verifyReplay,
+} from "./replay.ts";
+import {
+  DEFAULT_RULESET_ID,
+  findRuleset,
+  type Ruleset,
+  RULESETS,
+} from "./rulesets.ts";
+import {
+  applySaveDocument,
+  deleteSavedGame,
+  exportSaveFile,
+  importSaveFile,
+  type PlayerProgress,
+  readSavedGame,
+  type SaveDocument,
+  saveGame,
+  saveSlotChunks,
+  storeSaveDocument,
+} from "./save.ts";
+import { StatisticsTracker } from "./stats.ts";
+import { getWorldId, type SyncEvent, SyncSession } from "./sync.ts";
+import {
+  resolveTileProvider,
+  saveTileProvider,
+  TILE_PROVIDERS,
+  type TileProvider,
+} from "./tiles.ts";
+import {
+  BroadcastChannelTransport,
+  type SyncTransport,
+  WebSocketTransport,
+} from "./transport.ts";
+import type {
+  CellCoordinates,
+  GridCell,
+  PlayerState,
+  Token,
+  WorldCoordinates,
+} from "./types.ts";
+import { AchievementsPanel } from "./ui/achievementsPanel.ts";
+import { Announcer } from "./ui/announcer.ts";
+import { connect } from "./ui/component.ts";
+import { ControlsPanel } from "./ui/controlsPanel.ts";
+import { DebugPanel, keyValueTable } from "./ui/debugPanel.ts";
+import { button, type Child, h, list } from "./ui/dom.ts";
+import { HistoryControls } from "./ui/historyControls.ts";
+import { Instructions } from "./ui/instructions.ts";
+import { InventoryBar } from "./ui/inventoryBar.ts";
+import { MapSettings } from "./ui/mapSettings.ts";
+import { Modal } from "./ui/modal.ts";
+import { MovementPad } from "./ui/movementPad.ts";
+import { NearbyCellsPanel } from "./ui/nearbyCells.ts";
+import { PlayersPanel, type PlayersState } from "./ui/playersPanel.ts";
+import { ReplayPanel, type ReplayPanelState } from "./ui/replayPanel.ts";
+import { StatusBar } from "./ui/statusBar.ts";
+import { ToastStack } from "./ui/toasts.ts";
+import { WorldPanel } from "./ui/worldPanel.ts";
+import { DEFAULT_SEED, getSpawnCenter } from "./worldgen.ts";
 import "./style.css";
 
 // =============================================
-// INTERFACES & TYPES
+// DEBUG
 // =============================================
 
-interface Token {
-  value: number;
-}
+const debugPanel = new DebugPanel([
+  { label: "Show Saved Cell States", run: showCellStates },
+  { label: "Clear All Saved States", run: clearAllStates },
+  { label: "Show Memory Statistics", run: showMemoryStats },
+  { label: "Compact Storage", run: runCompaction },
+  { label: "Run Render Benchmark", run: runRenderBenchmark },
+]);
+
+function showCellStates(): void {
+  const states = world.caretaker.getLoadedStates();
+  const chunks = world.caretaker.getChunkStats();
 
-interface WorldCoordinates {
-  lat: number;
-  lng: number;
+  let tokenCount = 0;
+  let emptyCount = 0;
+  const cells = Array.from(states, ([key, memento]) => {
+    if (memento.token) {
+      tokenCount++;
+    } else {
+      emptyCount++;
+    }
+    const tokenInfo = memento.token
+      ? `Token(${memento.token.kind}, value: ${memento.token.value})`
+      : "Empty";
+    return `Cell ${key}: ${tokenInfo}`;
+  });
+
+  debugPanel.update([
+    h("p", {}, h("strong", { text: `Loaded Cell States: ${states.size}` })),
+    h("p", {
+      text: `Chunks: ${chunks.loaded} loaded, ${chunks.unloaded} not ` +
+        `loaded yet, ${chunks.dirty} with unsaved changes`,
+    }),
+    h("p", { text: `Active Cells: ${world.getActiveCellCount()}` }),
+    h("p", {
+      text: `Flyweight Objects: ${world.flyweights.getFlyweightCount()}`,
+    }),
+    list(cells, { className: "scroll-list" }),
+    h(
+      "p",
+      {},
+      h("strong", { text: "Summary:" }),
+      ` ${states.size} loaded modified cells (${tokenCount} with tokens, ` +
+        `${emptyCount} empty)`,
+    ),
+  ]);
 }
 
-interface CellCoordinates {
-  i: number;
-  j: number;
+function clearAllStates(): void {
+  if (isReplayMode) return;
+
+  recordStep({ type: "reset" });
+  engine.resetModifiedCells();
+  storageCompactor.clearArchive().catch((error) =>
+    console.warn("Could not clear the paged cells:", error)
+  );
+  persistGame();
+  showCellStates();
+  console.log("Cleared all saved cell states");
 }
 
-type CellKey = string;
+function showMemoryStats(): void {
+  // Calculate memory statistics
+  const totalCells = world.getActiveCellCount();
+  const modifiedCells =
+    Array.from(world.getActiveCells()).filter((cell) => cell.isModified).length;
+  const cellsWithTokens =
+    Array.from(world.getActiveCells()).filter((cell) => cell.token !== null)
+      .length;
+  const flyweightObjects = world.flyweights.getFlyweightCount();
+  const savedStates = world.caretaker.getAllStates().size;
+
+  // Estimate memory savings from flyweight pattern
+  const estimatedMemoryWithoutFlyweight = totalCells * 16;
+  const estimatedMemoryWithFlyweight = flyweightObjects * 16;
+  const memorySaved = estimatedMemoryWithoutFlyweight -
+    estimatedMemoryWithFlyweight;
 
-// Updated GridCell interface to use flyweight coordinates
-interface GridCell {
-  coordinates: CellCoordinates; // Flyweight object
-  token: Token | null;
-  bounds: leaflet.LatLngBounds;
-  element: leaflet.Rectangle | null;
-  isVisible: boolean;
-  isModified: boolean;
+  debugPanel.update([
+    h("p", {}, h("strong", { text: "Memory Statistics" })),
+    keyValueTable([
+      ["Active Cells:", totalCells],
+      ["Modified Cells:", modifiedCells],
+      ["Cells with Tokens:", cellsWithTokens],
+      ["Flyweight Objects:", flyweightObjects],
+      ["Saved States:", savedStates],
+      ["Paged Chunks:", storageCompactor.getStats().pagedChunks],
+      ["Memory Saved:", `~${memorySaved} bytes`],
+      ["Efficiency:", `${((flyweightObjects / totalCells) * 100).toFixed(1)}%`],
+    ]),
+    h("p", {}, h("strong", { text: "Flyweight Pattern Benefits:" })),
+    list([
+      "Shared coordinate objects reduce memory usage",
+      "Only modified cells require persistent storage",
+      "Unmodified cells remain stateless and lightweight",
+      "Automatic state preservation for modified cells",
+    ]),
+  ]);
 }
 
-interface GameState {
-  player: {
-    inventory: Token | null;
-    location: leaflet.LatLng;
-    points: number;
-  };
-  visibleCells: Set<CellKey>;
-  victoryCondition: number;
-  isVictoryAchieved: boolean;
+async function runCompaction(): Promise<void> {
+  debugPanel.update([h("p", { text: "Compacting storage..." })]);
+  showCompactionReport(await storageCompactor.compact());
 }
 
-// =============================================
-// MEMENTO PATTERN IMPLEMENTATION
-// =============================================
+function showCompactionReport(report: CompactionReport): void {
+  const { before, after } = report;
+  const row = (label: string, from: number, to: number) =>
+    h(
+      "tr",
+      {},
+      h("td", { text: label }),
+      h("td", { text: String(from) }),
+      h("td", { text: String(to) }),
+    );
+
+  debugPanel.update([
+    h("p", {}, h("strong", { text: "Storage Compaction" })),
+    h(
+      "table",
+      { className: "key-value-table" },
+      h(
+        "tr",
+        {},
+        h("th", { text: "" }),
+        h("th", { text: "Before" }),
+        h("th", { text: "After" }),
+      ),
+      row("Active Cells:", before.activeCells, after.activeCells),
+      row("Saved States:", before.savedStates, after.savedStates),
+      row("Flyweight Objects:", before.flyweights, after.flyweights),
+      row("Paged Chunks:", before.pagedChunks, after.pagedChunks),
+    ),
+    list([
+      `${report.droppedStates} saved states matched their generated token`,
+      `${report.evictedFlyweights} flyweights released`,
+      `${report.pagedOutStates} saved states paged out to IndexedDB`,
+    ]),
+  ]);
+}
 
-interface CellMemento {
-  cellKey: string;
-  token: Token | null;
-  timestamp: number;
+async function runRenderBenchmark(): Promise<void> {
+  debugPanel.update([h("p", { text: "Running render benchmark..." })]);
+
+  const result = await renderer.benchmark();
+  debugPanel.update([
+    h(
+      "p",
+      {},
+      h("strong", { text: "Render Benchmark (full-screen viewport)" }),
+    ),
+    list([
+      `Frames: ${result.frames}`,
+      `Cells drawn: ${result.cells}`,
+      `Average cell update: ${result.averageUpdateMs.toFixed(2)} ms`,
+      `Average frame time: ${result.averageFrameMs.toFixed(2)} ms`,
+      `Worst frame time: ${result.worstFrameMs.toFixed(2)} ms`,
+    ]),
+  ]);
+  console.log("Render benchmark:", result);
 }
 
-class CellOriginator {
-  createMemento(cellKey: string, token: Token | null): CellMemento {
-    return {
-      cellKey,
-      token: token ? { ...token } : null,
-      timestamp: Date.now(),
-    };
-  }
+// Add console debugging functions
+function logMemoryStats(): void {
+  const totalCells = world.getActiveCellCount();
+  const modifiedCells =
+    Array.from(world.getActiveCells()).filter((cell) => cell.isModified).length;
+  const flyweightObjects = world.flyweights.getFlyweightCount();
 
-  restoreFromMemento(memento: CellMemento): { token: Token | null } {
-    return {
-      token: memento.token ? { ...memento.token } : null,
-    };
-  }
+  console.log(`=== Memory Statistics ===`);
+  console.log(`Active Cells: ${totalCells}`);
+  console.log(`Modified Cells: ${modifiedCells}`);
+  console.log(`Flyweight Objects: ${flyweightObjects}`);
+  console.log(
+    `Memory Efficiency: ${((flyweightObjects / totalCells) * 100).toFixed(1)}%`,
+  );
+  console.log(`=========================`);
 }
 
-class CellCaretaker {
-  private mementos = new Map<string, CellMemento>();
-  private originator = new CellOriginator();
+// =============================================
+// PLAYER MOVEMENT
+// =============================================
 
-  saveState(cellKey: string, token: Token | null): void {
-    const memento = this.originator.createMemento(cellKey, token);
-    this.mementos.set(cellKey, memento);
-  }
+const movementProviders = new Map<string, MovementProvider>();
+let activeMovementProvider: MovementProvider | null = null;
 
-  restoreState(cellKey: string): Token | null {
-    const memento = this.mementos.get(cellKey);
-    if (!memento) return null;
+const movementPad = new MovementPad(setMovementProvider);
 
-    const state = this.originator.restoreFromMemento(memento);
-    return state.token;
-  }
+function setupMovementControls(): void {
+  movementProviders.set(
+    "buttons",
+    new ButtonMovementProvider(movementPad.buttons, movePlayer),
+  );
 
-  hasState(cellKey: string): boolean {
-    return this.mementos.has(cellKey);
+  if ("geolocation" in navigator) {
+    movementProviders.set(
+      "geolocation",
+      new GeolocationMovementProvider(
+        navigator.geolocation,
+        snapToCellCenter,
+        moveToLocation,
+        handleGeolocationError,
+      ),
+    );
   }
 
-  clearState(cellKey: string): void {
-    this.mementos.delete(cellKey);
-  }
+  movementPad.bind(() => ({
+    modes: Array.from(
+      movementProviders,
+      ([id, provider]) => ({ id, label: provider.label }),
+    ),
+    activeMode: getActiveMovementMode(),
+  }));
+  setMovementProvider("buttons");
+}
 
-  getAllStates(): Map<string, CellMemento> {
-    return new Map(this.mementos);
+function getActiveMovementMode(): string {
+  for (const [id, provider] of movementProviders) {
+    if (provider === activeMovementProvider) return id;
   }
+  return "";
 }
 
-// Initialize the caretaker globally
-const _cellCaretaker = new CellCaretaker();
-
-// =============================================
-// FLYWEIGHT PATTERN IMPLEMENTATION
-// =============================================
+function setMovementProvider(id: string): void {
+  const provider = movementProviders.get(id);
+  if (!provider || provider === activeMovementProvider) return;
 
-class CellFlyweightFactory {
-  private flyweights = new Map<string, CellCoordinates>();
+  activeMovementProvider?.stop();
+  activeMovementProvider = provider;
+  provider.start();
 
-  getFlyweight(i: number, j: number): CellCoordinates {
-    const key = cellToKey(i, j);
+  movementPad.refresh();
+  console.log(`Movement mode: ${provider.label}`);
+}
 
-    if (!this.flyweights.has(key)) {
-      this.flyweights.set(key, { i, j });
-    }
+function handleGeolocationError(error: GeolocationPositionError): void {
+  console.warn("Geolocation error:", error.message);
 
-    return this.flyweights.get(key)!;
+  // Without permission the watch will never report, so hand control back
+  if (error.code === error.PERMISSION_DENIED) {
+    setMovementProvider("buttons");
   }
+}
 
-  getFlyweightCount(): number {
-    return this.flyweights.size;
-  }
+function snapToCellCenter(position: GeoPosition): GeoPosition {
+  return world.grid.getCellCenter(world.grid.worldToCell(position));
 }
 
-// Initialize the flyweight factory globally
-const _cellFlyweightFactory = new CellFlyweightFactory();
+function movePlayer(direction: Direction): void {
+  if (isReplayMode) return;
 
-// =============================================
-// CONFIGURATION
-// =============================================
+  recordStep({ type: "move", direction });
+  setPlayerLocation(stepLocation(world.grid, player.location, direction));
+  console.log(`Player moved ${direction} to:`, player.location);
+}
 
-interface CellStyle {
-  color: string;
-  weight: number;
-  fillOpacity: number;
-}
-
-const CONFIG = {
-  CLASSROOM_LOCATION: leaflet.latLng(36.997936938057016, -122.05703507501151),
-  ZOOM_LEVEL: 19,
-  TILE_DEGREES: 1e-4,
-  INTERACTION_RANGE: 3,
-  VICTORY_THRESHOLD: 2048,
-  VIEWPORT_BUFFER: 2,
-  SPAWN: {
-    PROBABILITY: 0.15,
-    VALUE_DISTRIBUTION: { 1: 0.6, 2: 0.3, 4: 0.1 },
-    SPAWN_RADIUS: 8,
-  },
-  CELL_STYLES: {
-    default: { color: "#3388ff", weight: 1, fillOpacity: 0.1 } as CellStyle,
-    withToken: { color: "#ff3388", weight: 2, fillOpacity: 0.3 } as CellStyle,
-    interactable: {
-      color: "#33ff88",
-      weight: 2,
-      fillOpacity: 0.2,
-    } as CellStyle,
-    holdingToken: {
-      color: "#ffaa00",
-      weight: 3,
-      fillOpacity: 0.4,
-    } as CellStyle,
-    mergeTarget: { color: "#aa00ff", weight: 4, fillOpacity: 0.5 } as CellStyle,
-  },
-  UI: {
-    HIGHLIGHT_DURATION_MS: 500,
-    TOOLTIP_CLASS: "cell-tooltip",
-    INVENTORY_CLASS: "inventory-display",
-  },
-} as const;
+function moveToLocation(location: WorldCoordinates): void {
+  if (isReplayMode) return;
+
+  recordStep({ type: "moveTo", location });
+  setPlayerLocation(location);
+}
+
+function setPlayerLocation(location: WorldCoordinates): void {
+  engine.movePlayer(location);
+  persistGame();
+}
 
 // =============================================
-// COORDINATE CONVERSION
+// KEYBOARD & GAMEPAD CONTROLS
 // =============================================
 
-function worldToCell(lat: number, lng: number): CellCoordinates {
-  const i = Math.floor(lat / CONFIG.TILE_DEGREES);
-  const j = Math.floor(lng / CONFIG.TILE_DEGREES);
-  return { i, j };
-}
+let inputController: InputController;
+let cursorOffset: CellCoordinates | null = null; // Relative to the player
 
-function cellToWorldBounds(i: number, j: number): leaflet.LatLngBounds {
-  const southWest = leaflet.latLng(
-    i * CONFIG.TILE_DEGREES,
-    j * CONFIG.TILE_DEGREES,
-  );
-  const northEast = leaflet.latLng(
-    (i + 1) * CONFIG.TILE_DEGREES,
-    (j + 1) * CONFIG.TILE_DEGREES,
+const controlsPanel = new ControlsPanel({
+  onRebind: (device, action) => {
+    inputController.requestRebind(
+      device,
+      action,
+      () => controlsPanel.refresh(),
+    );
+  },
+  onReset: () => inputController.resetBindings(),
+});
+
+function setupInputControls(): void {
+  inputController = new InputController(
+    loadBindings(CONFIG.CONTROLS.STORAGE_KEY),
+    handleControlAction,
+    (bindings) => {
+      saveBindings(CONFIG.CONTROLS.STORAGE_KEY, bindings);
+      controlsPanel.refresh();
+    },
   );
-  return leaflet.latLngBounds(southWest, northEast);
-}
-
-function cellToKey(i: number, j: number): CellKey {
-  return `${i},${j}`;
-}
+  inputController.start();
 
-function cellDistance(cell1: CellCoordinates, cell2: CellCoordinates): number {
-  return Math.max(Math.abs(cell1.i - cell2.i), Math.abs(cell1.j - cell2.j));
+  controlsPanel.bind(() => inputController.getBindings()).refresh();
 }
 
-function _getCellsInRadius(
-  center: CellCoordinates,
-  radius: number,
-): CellCoordinates[] {
-  const cells: CellCoordinates[] = [];
-  for (let i = center.i - radius; i <= center.i + radius; i++) {
-    for (let j = center.j - radius; j <= center.j + radius; j++) {
-      if (cellDistance(center, { i, j }) <= radius) {
-        cells.push({ i, j });
-      }
-    }
+function handleControlAction(action: ControlAction): void {
+  switch (action) {
+    case "moveNorth":
+      moveWithControls("north");
+      break;
+    case "moveSouth":
+      moveWithControls("south");
+      break;
+    case "moveEast":
+      moveWithControls("east");
+      break;
+    case "moveWest":
+      moveWithControls("west");
+      break;
+    case "moveCenter":
+      moveWithControls("center");
+      break;
+    case "cursorNorth":
+      moveCursor(1, 0);
+      break;
+    case "cursorSouth":
+      moveCursor(-1, 0);
+      break;
+    case "cursorEast":
+      moveCursor(0, 1);
+      break;
+    case "cursorWest":
+      moveCursor(0, -1);
+      break;
+    case "interact":
+      interactWithCursor();
+      break;
   }
-  return cells;
 }
 
-// =============================================
-// CELL MANAGEMENT
-// =============================================
+// Keys and pads stand in for the movement buttons, so they are ignored
+// while the player is being moved by another provider
+function moveWithControls(direction: Direction): void {
+  if (activeMovementProvider !== movementProviders.get("buttons")) return;
+  movePlayer(direction);
+}
 
-const activeCells = new Map<CellKey, GridCell>();
+function getCursorCell(): CellCoordinates | null {
+  if (!cursorOffset) return null;
 
-function isCellActive(cellKey: CellKey): boolean {
-  return activeCells.has(cellKey);
+  const playerCell = engine.getPlayerCell();
+  return world.grid.normalizeCell({
+    i: playerCell.i + cursorOffset.i,
+    j: playerCell.j + cursorOffset.j,
+  });
 }
 
-function getOrCreateCell(i: number, j: number): GridCell {
-  const cellKey = cellToKey(i, j);
-
-  // Check if cell is already active
-  if (activeCells.has(cellKey)) {
-    return activeCells.get(cellKey)!;
+// The cursor stays within reach; a move that would leave it is ignored
+function moveCursor(di: number, dj: number): void {
+  const offset = cursorOffset ?? { i: 0, j: 0 };
+  const next = { i: offset.i + di, j: offset.j + dj };
+  if (
+    world.grid.cellDistance({ i: 0, j: 0 }, next) <= ruleset.interactionRange
+  ) {
+    cursorOffset = next;
   }
-
-  return spawnCell(i, j);
+  renderer.setCursor(getCursorCell());
 }
 
-function spawnCell(i: number, j: number): GridCell {
-  const bounds = cellToWorldBounds(i, j);
-  const coordinates = _cellFlyweightFactory.getFlyweight(i, j);
+function interactWithCursor(): void {
+  const cursorCell = getCursorCell();
+  if (!cursorCell) {
+    // The first press only reveals the cursor on the player's cell
+    moveCursor(0, 0);
+    return;
+  }
 
-  // Check for saved state first, otherwise spawn new token
-  let token: Token | null = null;
-  const isModified = _cellCaretaker.hasState(cellToKey(i, j));
+  const cell = world.getCell(cellToKey(cursorCell.i, cursorCell.j));
+  if (cell) handleCellClick(cell);
+}
 
-  if (isModified) {
-    // Restore from memento
-    token = _cellCaretaker.restoreState(cellToKey(i, j));
-  } else {
-    // Spawn new token using original algorithm
-    token = spawnTokenInCell(i, j);
-  }
+// =============================================
+// UNDO / REDO
+// =============================================
 
-  const newCell: GridCell = {
-    coordinates,
-    token,
-    bounds,
-    element: null,
-    isVisible: true,
-    isModified,
-  };
+const historyControls = new HistoryControls(undoAction, redoAction);
 
-  newCell.element = createCellElement(newCell);
-  const cellKey = cellToKey(i, j);
-  activeCells.set(cellKey, newCell);
-  gameState.visibleCells.add(cellKey);
+// A finished game's score is final, so its history is closed too
+function setupHistoryControls(): void {
+  connect(engine, historyControls, () => ({
+    canUndo: modeController.isPlayable() && engine.history.canUndo(),
+    canRedo: modeController.isPlayable() && engine.history.canRedo(),
+  }), ["historyChanged"]);
 
-  return newCell;
+  document.addEventListener("keydown", (event) => {
+    if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== "z") {
+      return;
+    }
+    // Form fields keep their own undo
+    const target = event.target;
+    if (
+      target instanceof HTMLInputElement ||
+      target instanceof HTMLSelectElement ||
+      target instanceof HTMLTextAreaElement
+    ) {
+      return;
+    }
+    event.preventDefault();
+    if (event.shiftKey) {
+      redoAction();
+    } else {
+      undoAction();
+    }
+  });
 }
 
-function despawnCell(cellKey: CellKey): void {
-  const cell = activeCells.get(cellKey);
-  if (!cell) return;
+function undoAction(): void {
+  if (isReplayMode || rejectWhenGameOver()) return;
 
-  // Save state if cell was modified
-  if (cell.isModified) {
-    _cellCaretaker.saveState(cellKey, cell.token);
-  }
+  recordStep({ type: "undo" });
+  handleHistoryResult(engine.undo(), "undo");
+}
 
-  if (cell.element) {
-    map.removeLayer(cell.element);
-  }
+function redoAction(): void {
+  if (isReplayMode || rejectWhenGameOver()) return;
 
-  activeCells.delete(cellKey);
-  gameState.visibleCells.delete(cellKey);
+  recordStep({ type: "redo" });
+  handleHistoryResult(engine.redo(), "redo");
 }
 
-function cleanupAllCells(): void {
-  for (const cell of activeCells.values()) {
-    if (cell.element) {
-      map.removeLayer(cell.element);
-    }
+function handleHistoryResult(
+  result: HistoryResult,
+  direction: "undo" | "redo",
+): void {
+  if (result === "applied") {
+    persistGame();
+  } else if (result === "outOfRange") {
+    flashStatusMessage(
+      `Too far! Walk back within ${ruleset.interactionRange} tiles of that cell to ${direction} it.`,
+    );
   }
-  activeCells.clear();
-  gameState.visibleCells.clear();
-}
-
-// Function to mark cell as modified and save state
-function markCellAsModified(cell: GridCell): void {
-  cell.isModified = true;
-  _cellCaretaker.saveState(
-    cellToKey(cell.coordinates.i, cell.coordinates.j),
-    cell.token,
-  );
 }
 
 // =============================================
-// DEBUG
+// UI MANAGEMENT
 // =============================================
 
-function addDebugControls(): void {
-  const debugPanel = document.createElement("div");
-  debugPanel.id = "debugPanel";
-  debugPanel.innerHTML = `
-    <div style="margin: 10px 0; padding: 10px; background: #f0f0f0; border-radius: 5px;">
-      <h4>Debug Info</h4>
-      <button id="showCellStates">Show Saved Cell States</button>
-      <button id="clearAllStates">Clear All Saved States</button>
-      <button id="showMemoryStats">Show Memory Statistics</button>
-      <div id="debugInfo" style="margin-top: 10px; font-family: monospace; font-size: 0.9em;"></div>
-    </div>
-  `;
-
-  document.getElementById("controlPanel")!.appendChild(debugPanel);
-
-  document.getElementById("showCellStates")!.addEventListener(
-    "click",
-    showCellStates,
-  );
-  document.getElementById("clearAllStates")!.addEventListener(
-    "click",
-    clearAllStates,
-  );
-  document.getElementById("showMemoryStats")!.addEventListener(
-    "click",
-    showMemoryStats,
-  );
+const statusBar = new StatusBar();
+const inventoryBar = new InventoryBar(selectSlot);
+const modal = new Modal();
+const toasts = new ToastStack();
+
+function setupStatusComponents(): void {
+  connect(engine, statusBar, () => ({
+    points: player.points,
+    highestValue: engine.getHighestTokenValue(),
+    interactionRange: ruleset.interactionRange,
+    rulesetName: ruleset.name,
+    modeName: modeController.mode.name,
+    ...modeController.getStatus(),
+  }), ["pointsChanged", "cellChanged", "inventoryChanged"]);
+
+  connect(engine, inventoryBar, () => ({
+    inventory: player.inventory,
+    activeSlot: player.activeSlot,
+  }), ["inventoryChanged"]);
 }
 
-function showCellStates(): void {
-  const debugInfo = document.getElementById("debugInfo")!;
-  const states = _cellCaretaker.getAllStates();
+function selectSlot(slot: number): void {
+  if (isReplayMode) return;
 
-  let infoHTML = `<p><strong>Saved Cell States: ${states.size}</strong></p>`;
-  infoHTML += `<p>Active Cells: ${activeCells.size}</p>`;
-  infoHTML +=
-    `<p>Flyweight Objects: ${_cellFlyweightFactory.getFlyweightCount()}</p>`;
-  infoHTML += `<ul style="max-height: 200px; overflow-y: auto;">`;
-
-  let modifiedCount = 0;
-  let emptyCount = 0;
-  let tokenCount = 0;
-
-  states.forEach((memento, key) => {
-    const tokenInfo = memento.token
-      ? `Token(value: ${memento.token.value})`
-      : "Empty";
-    infoHTML += `<li>Cell ${key}: ${tokenInfo}</li>`;
+  if (engine.selectSlot(slot)) {
+    recordStep({ type: "selectSlot", slot });
+    persistGame();
+  }
+}
 
-    if (memento.token) {
-      tokenCount++;
-    } else {
-      emptyCount++;
-    }
-    modifiedCount++;
+async function showModeSummary(summary: ModeSummary): Promise<void> {
+  announcer.announce(`${summary.title} ${summary.lines.join(" ")}`, true);
+
+  const choice = await modal.open({
+    title: summary.title,
+    body: summary.lines.map((line) => h("p", { text: line })),
+    actions: [
+      {
+        label: modeController.isPlayable() ? "Keep Playing" : "Close",
+        value: "close",
+      },
+      { label: "New Game", value: "newGame" },
+    ],
   });
+  if (choice === "newGame") openNewGameDialog();
+}
 
-  infoHTML += `</ul>`;
-  infoHTML +=
-    `<p><strong>Summary:</strong> ${modifiedCount} modified cells (${tokenCount} with tokens, ${emptyCount} empty)</p>`;
-
-  debugInfo.innerHTML = infoHTML;
+// Announced by the caller, since the spoken message can say more
+function showOutOfRangeMessage(): void {
+  statusBar.flash(
+    `Too far! You can only interact with cells within ${ruleset.interactionRange} tiles.`,
+  );
 }
 
-function clearAllStates(): void {
-  // Clear all saved states
-  const states = _cellCaretaker.getAllStates();
-  states.forEach((_, key) => {
-    _cellCaretaker.clearState(key);
-  });
+function flashStatusMessage(message: string): void {
+  statusBar.flash(message);
+  announcer.announce(message, true);
+}
 
-  // Reset all active cells that were modified
-  activeCells.forEach((cell, _key) => {
-    if (cell.isModified) {
-      cell.isModified = false;
-      // Respawn token using original algorithm
-      cell.token = spawnTokenInCell(cell.coordinates.i, cell.coordinates.j);
-      updateCellVisualization(cell);
-    }
-  });
+function handleGameEvent(event: GameEvent): void {
+  switch (event.type) {
+    case "cellInteraction":
+      logCellInteraction(event.cell, event.action);
+      announcer.announce(
+        describeInteraction(engine, event.cell, event.action),
+        event.action === "outOfRange" || event.action === "invalid",
+      );
+      if (event.action === "outOfRange") {
+        showOutOfRangeMessage();
+      } else if (event.action !== "invalid") {
+        checkAchievements();
+        persistGame();
+      }
+      break;
+    case "playerMoved":
+      renderer.setCursor(getCursorCell());
+      checkAchievements();
+      break;
+  }
+}
 
-  showCellStates();
-  console.log("Cleared all saved cell states");
+// Tells the player when a mode has ended the game for good
+function rejectWhenGameOver(): boolean {
+  if (modeController.isPlayable()) return false;
+  flashStatusMessage("This game is over. Start a new game to play again.");
+  return true;
 }
 
-function showMemoryStats(): void {
-  const debugInfo = document.getElementById("debugInfo")!;
+function handleCellClick(cell: GridCell): void {
+  if (isReplayMode || rejectWhenGameOver()) return;
 
-  // Calculate memory statistics
-  const totalCells = activeCells.size;
-  const modifiedCells =
-    Array.from(activeCells.values()).filter((cell) => cell.isModified).length;
-  const cellsWithTokens =
-    Array.from(activeCells.values()).filter((cell) => cell.token !== null)
-      .length;
-  const flyweightObjects = _cellFlyweightFactory.getFlyweightCount();
-  const savedStates = _cellCaretaker.getAllStates().size;
+  recordStep({
+    type: "interact",
+    cell: { i: cell.coordinates.i, j: cell.coordinates.j },
+  });
+  engine.interact(cell);
+}
 
-  // Estimate memory savings from flyweight pattern
-  const estimatedMemoryWithoutFlyweight = totalCells * 16;
-  const estimatedMemoryWithFlyweight = flyweightObjects * 16;
-  const memorySaved = estimatedMemoryWithoutFlyweight -
-    estimatedMemoryWithFlyweight;
+function logCellInteraction(cell: GridCell, action: CellAction): void {
+  console.log(`Cell clicked: (${cell.coordinates.i}, ${cell.coordinates.j})`);
+  console.log(`Token in cell:`, cell.token);
+  console.log(`Active slot ${player.activeSlot + 1}:`, engine.getActiveToken());
+  console.log(`Result: ${action}`);
+}
 
-  let infoHTML = `
-    <p><strong>Memory Statistics</strong></p>
-    <table style="width: 100%; border-collapse: collapse;">
-      <tr><td style="padding: 4px; border-bottom: 1px solid #ccc;">Active Cells:</td><td style="padding: 4px; border-bottom: 1px solid #ccc;">${totalCells}</td></tr>
-      <tr><td style="padding: 4px; border-bottom: 1px solid #ccc;">Modified Cells:</td><td style="padding: 4px; border-bottom: 1px solid #ccc;">${modifiedCells}</td></tr>
-      <tr><td style="padding: 4px; border-bottom: 1px solid #ccc;">Cells with Tokens:</td><td style="padding: 4px; border-bottom: 1px solid #ccc;">${cellsWithTokens}</td></tr>
-      <tr><td style="padding: 4px; border-bottom: 1px solid #ccc;">Flyweight Objects:</td><td style="padding: 4px; border-bottom: 1px solid #ccc;">${flyweightObjects}</td></tr>
-      <tr><td style="padding: 4px; border-bottom: 1px solid #ccc;">Saved States:</td><td style="padding: 4px; border-bottom: 1px solid #ccc;">${savedStates}</td></tr>
-      <tr><td style="padding: 4px; border-bottom: 1px solid #ccc;">Memory Saved:</td><td style="padding: 4px; border-bottom: 1px solid #ccc;">~${memorySaved} bytes</td></tr>
-      <tr><td style="padding: 4px;">Efficiency:</td><td style="padding: 4px;">${
-    ((flyweightObjects / totalCells) * 100).toFixed(1)
-  }%</td></tr>
-    </table>
-  `;
-
-  infoHTML += `<p><strong>Flyweight Pattern Benefits:</strong></p>`;
-  infoHTML += `<ul>`;
-  infoHTML += `<li>Shared coordinate objects reduce memory usage</li>`;
-  infoHTML += `<li>Only modified cells require persistent storage</li>`;
-  infoHTML += `<li>Unmodified cells remain stateless and lightweight</li>`;
-  infoHTML += `<li>Automatic state preservation for modified cells</li>`;
-  infoHTML += `</ul>`;
-
-  debugInfo.innerHTML = infoHTML;
+function persistGame(): void {
+  // Replays run on a copy of their starting state, never on the saved game
+  if (isLeavingGame || isReplayMode) return;
+  saveGame(world, player, getProgress(), modeController.snapshot());
 }
 
-// Add console debugging functions
-function logMemoryStats(): void {
-  const totalCells = activeCells.size;
-  const modifiedCells =
-    Array.from(activeCells.values()).filter((cell) => cell.isModified).length;
-  const flyweightObjects = _cellFlyweightFactory.getFlyweightCount();
+// =============================================
+// ACCESSIBILITY
+// =============================================
 
-  console.log(`=== Memory Statistics ===`);
-  console.log(`Active Cells: ${totalCells}`);
-  console.log(`Modified Cells: ${modifiedCells}`);
-  console.log(`Flyweight Objects: ${flyweightObjects}`);
-  console.log(
-    `Memory Efficiency: ${((flyweightObjects / totalCells) * 100).toFixed(1)}%`,
+const announcer = new Announcer();
+const nearbyCellsPanel = new NearbyCellsPanel(handleCellClick);
+const highContrastToggle = h("input", {
+  attrs: { type: "checkbox" },
+  on: {
+    change: () => {
+      const themeId = highContrastToggle.checked ? "highContrast" : "standard";
+      saveThemePreference(CONFIG.THEME.STORAGE_KEY, themeId);
+      setTheme(themeId);
+    },
+  },
+});
+
+function setupAccessibility(): void {
+  connect(
+    engine,
+    nearbyCellsPanel,
+    () => listNearbyCells(engine),
+    ["cellChanged", "playerMoved", "inventoryChanged"],
   );
-  console.log(`=========================`);
+  setTheme(loadThemePreference(CONFIG.THEME.STORAGE_KEY));
+}
+
+function setTheme(themeId: CellThemeId): void {
+  highContrastToggle.checked = themeId === "highContrast";
+  document.body.classList.toggle("high-contrast", themeId === "highContrast");
+  renderer.setTheme(themeId);
 }
 
 // =============================================
-// GRID VISIBILITY MANAGEMENT
+// STATISTICS & ACHIEVEMENTS
 // =============================================
 
-function getVisibleCellRange(map: leaflet.Map) {
-  const bounds = map.getBounds();
-  const southWest = bounds.getSouthWest();
-  const northEast = bounds.getNorthEast();
+let statistics: StatisticsTracker;
+let unlockedAchievements: UnlockedAchievements = {};
 
-  const minCell = worldToCell(southWest.lat, southWest.lng);
-  const maxCell = worldToCell(northEast.lat, northEast.lng);
-  const buffer = CONFIG.VIEWPORT_BUFFER;
+const achievementsPanel = new AchievementsPanel();
 
+function getProgress(): PlayerProgress {
   return {
-    minI: minCell.i - buffer,
-    maxI: maxCell.i + buffer,
-    minJ: minCell.j - buffer,
-    maxJ: maxCell.j + buffer,
+    stats: statistics.snapshot(),
+    achievements: unlockedAchievements,
   };
 }
 
-function updateCellVisibility(): void {
-  const visibleRange = getVisibleCellRange(map);
-  const currentlyVisible = new Set<string>();
+function setupProgressTracking(progress: PlayerProgress | null): void {
+  statistics = new StatisticsTracker(engine, progress?.stats);
+  unlockedAchievements = { ...progress?.achievements };
 
-  for (let i = visibleRange.minI; i <= visibleRange.maxI; i++) {
-    for (let j = visibleRange.minJ; j <= visibleRange.maxJ; j++) {
-      const cellKey = cellToKey(i, j);
-      currentlyVisible.add(cellKey);
+  achievementsPanel.bind(() => ({
+    stats: statistics.snapshot(),
+    unlocked: unlockedAchievements,
+  })).refresh();
+}
 
-      if (!isCellActive(cellKey)) {
-        getOrCreateCell(i, j);
-      } else {
-        const cell = activeCells.get(cellKey)!;
-        cell.isVisible = true;
-      }
-    }
-  }
+function checkAchievements(): void {
+  const unlocked = unlockAchievements(
+    statistics.snapshot(),
+    unlockedAchievements,
+  );
+  if (unlocked.length === 0) return;
 
-  for (const cellKey of activeCells.keys()) {
-    if (!currentlyVisible.has(cellKey)) {
-      despawnCell(cellKey);
-    }
+  for (const achievement of unlocked) {
+    console.log(`Achievement unlocked: ${achievement.name}`);
+    toasts.show(`🏆 ${achievement.name}: ${achievement.description}`);
   }
-}
-
-function handleMapMove(): void {
-  updateCellVisibility();
-  updateInteractionRangeDisplay();
+  achievementsPanel.refresh();
+  persistGame();
 }
 
 // =============================================
-// TOKEN SPAWNING
+// WORLD SETTINGS
 // =============================================
 
-function shouldSpawnToken(i: number, j: number): boolean {
-  const playerCell = worldToCell(
-    gameState.player.location.lat,
-    gameState.player.location.lng,
+interface WorldSettings {
+  seed: string;
+  ruleset: Ruleset;
+  grid: GridProjection;
+  mode: GameMode;
+  restoreSave: boolean;
+}
+
+let isLeavingGame = false;
+
+const worldPanel = new WorldPanel({
+  onNewGame: openNewGameDialog,
+  onShare: shareWorld,
+  onExport: exportSave,
+  onImport: importSave,
+});
+
+function generateRandomSeed(): string {
+  const alphabet = "abcdefghijkmnpqrstuvwxyz23456789";
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  return Array.from(bytes, (byte) => alphabet[byte % alphabet.length]).join(
+    "",
   );
-  const distance = cellDistance(playerCell, { i, j });
-  const withinSpawnRadius = distance <= CONFIG.SPAWN.SPAWN_RADIUS;
-  if (!withinSpawnRadius) return false;
+}
+
+function resolveRuleset(id: string): Ruleset {
+  const found = findRuleset(id);
+  if (found) return found;
 
-  const spawnSeed = `${i},${j}`;
-  const spawnRoll = luck(spawnSeed);
-  return spawnRoll < CONFIG.SPAWN.PROBABILITY;
+  console.warn(`Unknown ruleset "${id}", using ${DEFAULT_RULESET_ID}`);
+  return findRuleset(DEFAULT_RULESET_ID)!;
 }
 
-function determineTokenValue(i: number, j: number): number {
-  const valueSeed = `${i},${j},value`;
-  const valueRoll = luck(valueSeed);
+function resolveGrid(id: string): GridProjection {
+  const found = findGridProjection(id);
+  if (found) return found;
 
-  let cumulativeProbability = 0;
-  for (
-    const [value, probability] of Object.entries(
-      CONFIG.SPAWN.VALUE_DISTRIBUTION,
-    )
-  ) {
-    cumulativeProbability += probability;
-    if (valueRoll < cumulativeProbability) {
-      return parseInt(value);
-    }
-  }
-  return 1;
+  console.warn(`Unknown grid "${id}", using ${DEFAULT_GRID_ID}`);
+  return findGridProjection(DEFAULT_GRID_ID)!;
 }
 
-function spawnTokenInCell(i: number, j: number): Token | null {
-  if (!shouldSpawnToken(i, j)) {
-    return null;
-  }
-  const value = determineTokenValue(i, j);
-  return { value };
+function resolveMode(id: string): GameMode {
+  const found = findGameMode(id);
+  if (found) return found;
+
+  console.warn(`Unknown game mode "${id}", using ${DEFAULT_MODE_ID}`);
+  return findGameMode(DEFAULT_MODE_ID)!;
 }
 
-// =============================================
-// GAME LOGIC
-// =============================================
+// The URL decides which world to play so that worlds can be shared as links.
+// Without world parameters the saved game's world is resumed. Modes such as
+// the daily challenge may pick the world themselves.
+function resolveWorldSettings(save: SaveDocument | null): WorldSettings {
+  const params = new URLSearchParams(globalThis.location.search);
+  const mode = resolveMode(
+    params.get(CONFIG.MODE_PARAM) ?? save?.mode.modeId ?? DEFAULT_MODE_ID,
+  );
+  // A saved game keeps the world of the day it started, so resuming a
+  // daily challenge the next day is not taken for a link to a new world
+  const worldDate = save?.mode.modeId === mode.id
+    ? new Date(save.mode.startedAt)
+    : new Date();
+  const choice = mode.resolveWorld({
+    seed: params.get(CONFIG.SEED_PARAM) ?? save?.world.seed ?? DEFAULT_SEED,
+    rulesetId: params.get(CONFIG.RULESET_PARAM) ?? save?.world.rulesetId ??
+      DEFAULT_RULESET_ID,
+    gridId: params.get(CONFIG.GRID.PARAM) ?? save?.world.gridId ??
+      DEFAULT_GRID_ID,
+  }, worldDate);
+  const seed = choice.seed;
+  const ruleset = resolveRuleset(choice.rulesetId);
+  const grid = resolveGrid(choice.gridId);
+
+  if (!save) return { seed, ruleset, grid, mode, restoreSave: false };
+  if (
+    save.world.seed === seed && save.world.rulesetId === ruleset.id &&
+    save.world.gridId === grid.id && save.mode.modeId === mode.id
+  ) {
+    return { seed, ruleset, grid, mode, restoreSave: true };
+  }
 
-function isCellInteractable(cell: GridCell): boolean {
-  const playerCell = worldToCell(
-    gameState.player.location.lat,
-    gameState.player.location.lng,
+  // The world has to be known before anything is built, so this is the one
+  // prompt that cannot wait for the modal
+  const startOver = confirm(
+    "This link opens a different world. Start a new game there?\n" +
+      "Your current saved game will be replaced.",
   );
-  const distance = cellDistance(playerCell, {
-    i: cell.coordinates.i,
-    j: cell.coordinates.j,
-  });
-  return distance <= CONFIG.INTERACTION_RANGE;
-}
+  if (startOver) return { seed, ruleset, grid, mode, restoreSave: false };
 
-function hasToken(cell: GridCell): boolean {
-  return cell.token !== null;
+  return {
+    seed: save.world.seed,
+    ruleset: resolveRuleset(save.world.rulesetId),
+    grid: resolveGrid(save.world.gridId),
+    mode: resolveMode(save.mode.modeId),
+    restoreSave: true,
+  };
 }
 
-function isPlayerHoldingToken(): boolean {
-  return gameState.player.inventory !== null;
+function getCurrentWorld(): WorldChoice {
+  return {
+    seed: world.generation.seed,
+    rulesetId: ruleset.id,
+    gridId: world.grid.id,
+  };
 }
 
-function isMergeTarget(cell: GridCell): boolean {
-  return isCellInteractable(cell) &&
-    hasToken(cell) &&
-    isPlayerHoldingToken() &&
-    gameState.player.inventory!.value === cell.token!.value;
+// Links to a world always leave replay mode
+function getWorldUrl(choice: WorldChoice, modeId: string): URL {
+  const url = new URL(globalThis.location.href);
+  url.searchParams.delete(CONFIG.REPLAY_PARAM);
+  url.searchParams.set(CONFIG.SEED_PARAM, choice.seed);
+  url.searchParams.set(CONFIG.RULESET_PARAM, choice.rulesetId);
+  url.searchParams.set(CONFIG.GRID.PARAM, choice.gridId);
+  url.searchParams.set(CONFIG.MODE_PARAM, modeId);
+  return url;
 }
 
-function canMergeTokens(heldToken: Token, cellToken: Token): boolean {
-  return heldToken.value === cellToken.value;
-}
+async function openNewGameDialog(): Promise<void> {
+  const seedInput = h("input", {
+    attrs: { type: "text", autocomplete: "off" },
+  });
+  seedInput.value = generateRandomSeed();
 
-function mergeTokens(heldToken: Token, cellToken: Token): Token {
-  const newValue = heldToken.value * 2;
-  console.log(
-    `Merging tokens: ${heldToken.value} + ${cellToken.value} = ${newValue}`,
-  );
-  gameState.player.points += newValue;
-  return { value: newValue };
-}
+  const rulesetSelect = h("select");
+  for (const option of RULESETS) {
+    rulesetSelect.add(new Option(option.name, option.id));
+  }
+  rulesetSelect.value = ruleset.id;
 
-function attemptMerge(cell: GridCell): boolean {
-  if (!gameState.player.inventory || !cell.token) return false;
-  if (!canMergeTokens(gameState.player.inventory, cell.token)) return false;
+  const gridSelect = h("select");
+  for (const option of GRID_PROJECTIONS) {
+    gridSelect.add(new Option(option.name, option.id));
+  }
+  gridSelect.value = world.grid.id;
 
-  const newToken = mergeTokens(gameState.player.inventory, cell.token);
-  cell.token = newToken;
-  gameState.player.inventory = null;
-  markCellAsModified(cell);
+  const randomButton = button(
+    "Random",
+    () => seedInput.value = generateRandomSeed(),
+  );
+  const modeDescription = h("p");
+  const modeSelect = h("select", { on: { change: () => showMode() } });
+  for (const option of GAME_MODES) {
+    modeSelect.add(new Option(option.name, option.id));
+  }
+  modeSelect.value = modeController.mode.id;
+
+  // Modes that pick their own world lock the world fields
+  const showMode = () => {
+    const mode = resolveMode(modeSelect.value);
+    modeDescription.textContent = mode.description;
+    seedInput.disabled = mode.choosesWorld;
+    randomButton.disabled = mode.choosesWorld;
+    rulesetSelect.disabled = mode.choosesWorld;
+    gridSelect.disabled = mode.choosesWorld;
+  };
+  showMode();
+
+  const choice = await modal.open({
+    title: "New Game",
+    body: [
+      h("p", {}, h("label", {}, "Mode: ", modeSelect)),
+      modeDescription,
+      h(
+        "p",
+        {},
+        h("label", {}, "World seed: ", seedInput),
+        randomButton,
+      ),
+      h("p", {}, h("label", {}, "Rules: ", rulesetSelect)),
+      h("p", {}, h("label", {}, "Grid: ", gridSelect)),
+      h("p", { text: "Starting a new game replaces your saved progress." }),
+    ],
+    actions: [
+      { label: "Cancel", value: "cancel" },
+      { label: "Start", value: "start" },
+    ],
+  });
 
-  updateCellVisualization(cell);
-  updateInventoryDisplay();
-  updateUI();
+  if (choice === "start") {
+    const mode = resolveMode(modeSelect.value);
+    const choice = mode.resolveWorld({
+      seed: seedInput.value.trim(),
+      rulesetId: rulesetSelect.value,
+      gridId: gridSelect.value,
+    }, new Date());
+    startNewGame(choice, mode.id);
+  }
+}
 
-  console.log(`Successful merge. New token value: ${newToken.value}`);
-  checkVictoryCondition(newToken);
-  return true;
+function startNewGame(choice: WorldChoice, modeId: string): void {
+  // Keep the pagehide handler from writing the old game back
+  isLeavingGame = true;
+  deleteSavedGame();
+  globalThis.location.assign(getWorldUrl(choice, modeId));
 }
 
-function checkVictoryCondition(newToken: Token): void {
-  if (
-    newToken.value >= CONFIG.VICTORY_THRESHOLD && !gameState.isVictoryAchieved
-  ) {
-    gameState.isVictoryAchieved = true;
-    updateUI();
-  }
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = h("a", { attrs: { href: url, download: filename } });
+  link.click();
+  URL.revokeObjectURL(url);
 }
 
-// =============================================
-// INVENTORY MANAGEMENT
-// =============================================
+function getExportFilename(kind: string): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `world-of-bits-${kind}-${world.generation.seed || "default"}-` +
+    `${date}.json`;
+}
 
-function canPickupToken(cell: GridCell): boolean {
-  return isCellInteractable(cell) && hasToken(cell) && !isPlayerHoldingToken();
+// Paged-out cells are part of the game too
+async function exportSave(): Promise<void> {
+  await storageCompactor.pageInAll();
+  downloadBlob(
+    exportSaveFile(world, player, getProgress(), modeController.snapshot()),
+    getExportFilename("save"),
+  );
+  console.log("Exported save file");
 }
 
-function pickupTokenFromCell(cell: GridCell): void {
-  if (!canPickupToken(cell)) {
-    console.warn("Cannot pickup token from cell:", cell);
+// The imported save replaces the stored one and the page reloads into its
+// world, so the running game is never left half-replaced
+async function importSave(file: File): Promise<void> {
+  const result = await importSaveFile(file);
+  if (!result.ok) {
+    console.warn(`Rejected save file ${file.name}:`, result.errors);
+    await modal.alert(
+      `Could not import ${file.name}`,
+      list(result.errors),
+    );
     return;
   }
 
-  gameState.player.inventory = cell.token;
-  cell.token = null;
-  markCellAsModified(cell);
-
-  updateCellVisualization(cell);
-  updateInventoryDisplay();
+  const { save } = result;
+  const confirmed = await modal.confirm(
+    `Import ${file.name}?`,
+    "Import",
+    h("p", {
+      text: `${save.cells.length} modified cells, ${save.player.points} ` +
+        `points.`,
+    }),
+    h("p", { text: "Your current game will be replaced." }),
+  );
+  if (!confirmed) return;
+
+  isLeavingGame = true;
+  if (!storeSaveDocument(save)) {
+    isLeavingGame = false;
+    await modal.alert(
+      "Import failed",
+      "Could not store the imported save. Your game was not changed.",
+    );
+    return;
+  }
+  await storageCompactor.clearArchive().catch((error) =>
+    console.warn("Could not clear the paged cells:", error)
+  );
+  globalThis.location.assign(
+    getWorldUrl(save.world, save.mode.modeId),
+  );
 }
 
-function dropTokenToCell(cell: GridCell): boolean {
-  if (!isCellInteractable(cell) || !gameState.player.inventory) return false;
-
-  if (cell.token) {
-    return attemptMerge(cell);
+function shareWorld(): void {
+  const url = getWorldUrl(getCurrentWorld(), modeController.mode.id)
+    .toString();
+  const showLink = () =>
+    modal.alert(
+      "Share World",
+      h("p", { text: "Copy this link to share your world:" }),
+      h("input", { attrs: { type: "text", readonly: "", value: url } }),
+    );
+
+  if (!navigator.clipboard) {
+    showLink();
+    return;
   }
+  navigator.clipboard.writeText(url).then(
+    () => flashStatusMessage("World link copied to the clipboard!"),
+    showLink,
+  );
+}
 
-  cell.token = gameState.player.inventory;
-  gameState.player.inventory = null;
-  markCellAsModified(cell);
+// =============================================
+// WORLD TIME
+// =============================================
 
-  updateCellVisualization(cell);
-  updateInventoryDisplay();
+// Ticks are recorded like inputs, so a replay sees the cells in view change
+// between the same steps as the session it recorded
+function tickWorldTime(): void {
+  if (isReplayMode) return;
 
-  return true;
+  const now = Date.now();
+  recordStep({ type: "tick", now });
+  engine.advanceWorldTime(now);
 }
 
 // =============================================
-// VISUALIZATION
+// REPLAY
 // =============================================
 
-function getCellStyle(cell: GridCell): CellStyle {
-  const baseStyle = { ...CONFIG.CELL_STYLES.default };
+let recorder: ReplayRecorder | null = null;
+let replayPlayer: ReplayPlayer | null = null;
+let replaySpeed = 1;
+let replayStatus = "";
+let isReplayVerified = false;
+
+const replayPanel = new ReplayPanel({
+  onToggleRecording: toggleRecording,
+  onPlayLast: playLastRecording,
+  onVerifyLast: verifyLastRecording,
+  onDownloadLast: downloadLastRecording,
+  onLoad: loadRecording,
+  onPlayPause: () => {
+    if (replayPlayer?.isPlaying()) {
+      replayPlayer.pause();
+    } else {
+      replayPlayer?.play();
+    }
+  },
+  onStep: () => replayPlayer?.step(),
+  onSpeedChange: (speed) => {
+    replaySpeed = speed;
+    replayPlayer?.setSpeed(speed);
+  },
+  onExit: () => globalThis.location.assign(globalThis.location.pathname),
+});
 
-  if (isMergeTarget(cell)) {
-    Object.assign(baseStyle, CONFIG.CELL_STYLES.mergeTarget);
-  } else if (hasToken(cell)) {
-    Object.assign(baseStyle, CONFIG.CELL_STYLES.withToken);
+function getReplayPanelState(): ReplayPanelState {
+  if (!replayPlayer) {
+    return {
+      mode: "recorder",
+      isRecording: recorder !== null,
+      status: replayStatus,
+    };
   }
+  return {
+    mode: "playback",
+    isPlaying: replayPlayer.isPlaying(),
+    position: replayPlayer.position,
+    length: replayPlayer.length,
+    speed: replaySpeed,
+    status: replayStatus,
+  };
+}
 
-  if (isCellInteractable(cell)) {
-    Object.assign(baseStyle, CONFIG.CELL_STYLES.interactable);
+function setupReplayControls(): void {
+  if (replayRecording) {
+    replayPlayer = new ReplayPlayer(
+      replayRecording,
+      engine,
+      handleReplayProgress,
+    );
   }
+  replayPanel.bind(getReplayPanelState).refresh();
+}
 
-  if (
-    isPlayerHoldingToken() && isCellInteractable(cell) && !isMergeTarget(cell)
-  ) {
-    Object.assign(baseStyle, CONFIG.CELL_STYLES.holdingToken);
-  }
+function recordStep(step: ReplayStep): void {
+  recorder?.record(step);
+}
 
-  return baseStyle;
+function setReplayStatus(message: string): void {
+  replayStatus = message;
+  replayPanel.refresh();
 }
 
-function createTooltipContent(cell: GridCell): string {
-  if (isMergeTarget(cell) && gameState.player.inventory && cell.token) {
-    const newValue = gameState.player.inventory.value * 2;
-    return `Merge: ${gameState.player.inventory.value} + ${cell.token.value} = ${newValue}`;
+// Every paged cell is brought back first, so that the starting point holds
+// the whole world and nothing is paged in behind the recording's back
+async function toggleRecording(): Promise<void> {
+  if (recorder) {
+    stopRecording();
+    return;
   }
 
-  if (hasToken(cell) && cell.token) {
-    return `${cell.token.value}`;
+  if (!await storageCompactor.suspendPageOut()) {
+    storageCompactor.resumePageOut();
+    setReplayStatus("Could not load every saved cell, so nothing recorded.");
+    return;
   }
+  recorder = new ReplayRecorder(engine, modeController.snapshot());
+  setReplayStatus("Recording...");
+  console.log("Started recording");
+}
+
+function stopRecording(): void {
+  if (!recorder) return;
 
-  return ``;
+  const recording = recorder.finish();
+  recorder = null;
+  storageCompactor.resumePageOut();
+  setReplayStatus(
+    storeReplayRecording(recording)
+      ? `Recorded ${recording.steps.length} steps.`
+      : "Could not store the recording.",
+  );
+  console.log("Stopped recording:", recording);
 }
 
-function getTooltipOptions(cell: GridCell): leaflet.TooltipOptions {
-  const shouldShowPermanent = hasToken(cell) ||
-    (isPlayerHoldingToken() && isCellInteractable(cell)) ||
-    isMergeTarget(cell);
+function requireLastRecording(): ReplayRecording | null {
+  const recording = readReplayRecording();
+  if (!recording) setReplayStatus("No recording yet.");
+  return recording;
+}
 
-  return {
-    permanent: shouldShowPermanent,
-    direction: "center",
-    className: shouldShowPermanent ? CONFIG.UI.TOOLTIP_CLASS : "",
-  };
+function playLastRecording(): void {
+  stopRecording();
+  const recording = requireLastRecording();
+  if (!recording) return;
+
+  persistGame();
+  const url = getWorldUrl(recording.start.world, recording.start.mode.modeId);
+  url.searchParams.set(CONFIG.REPLAY_PARAM, "1");
+  globalThis.location.assign(url);
 }
 
-function createCellElement(cell: GridCell): leaflet.Rectangle {
-  if (!map) throw new Error("Map not initialized");
-  if (!cell.bounds) throw new Error("Cell bounds undefined");
+function verifyLastRecording(): void {
+  const recording = requireLastRecording();
+  if (!recording) return;
 
-  const style = getCellStyle(cell);
-  const rectangle = leaflet.rectangle(cell.bounds, style);
+  reportReplayVerification(verifyReplay(recording));
+}
 
-  rectangle.addTo(map);
-  rectangle.bindTooltip(createTooltipContent(cell), getTooltipOptions(cell));
-  rectangle.on("click", () => handleCellClick(cell));
+function downloadLastRecording(): void {
+  const recording = requireLastRecording();
+  if (!recording) return;
 
-  return rectangle;
+  downloadBlob(
+    new Blob([JSON.stringify(recording, null, 2)], {
+      type: "application/json",
+    }),
+    getExportFilename("replay"),
+  );
 }
 
-function updateCellVisualization(cell: GridCell) {
-  if (!map) throw new Error("Map not initialized");
+async function loadRecording(file: File): Promise<void> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    setReplayStatus(`${file.name} is not valid JSON.`);
+    return;
+  }
 
-  if (cell.element) {
-    map.removeLayer(cell.element);
+  const result = parseReplayRecording(raw);
+  if (!result.ok) {
+    console.warn(`Rejected replay file ${file.name}:`, result.errors);
+    setReplayStatus(`Could not load ${file.name}: ${result.errors[0]}`);
+    return;
+  }
+  if (storeReplayRecording(result.recording)) {
+    setReplayStatus(
+      `Loaded ${file.name} (${result.recording.steps.length} steps).`,
+    );
   }
-  cell.element = createCellElement(cell);
 }
 
-function updateInteractionRangeDisplay(): void {
-  for (const cell of activeCells.values()) {
-    if (cell.element) {
-      updateCellVisualization(cell);
-    }
+function reportReplayVerification(mismatches: string[]): void {
+  if (mismatches.length === 0) {
+    setReplayStatus("✓ Points and cells match the recording.");
+    console.log("Replay verified: outcome matches the recording");
+    return;
   }
+
+  setReplayStatus(
+    `✗ ${mismatches.length} differences from the recording (see console).`,
+  );
+  console.error("Replay does not match the recording:", mismatches);
+}
+
+function handleReplayProgress(playback: ReplayPlayer): void {
+  if (playback.isFinished() && !isReplayVerified) {
+    isReplayVerified = true;
+    reportReplayVerification(playback.verify());
+    return;
+  }
+  replayPanel.refresh();
 }
 
 // =============================================
-// PLAYER MOVEMENT
+// MAP TILES
 // =============================================
 
-function addMovementControls(): void {
-  const movementPanel = document.createElement("div");
-  movementPanel.id = "movementPanel";
-  movementPanel.innerHTML = `
-    <div style="display: grid; grid-template-columns: 1fr 1fr 1fr; gap: 5px; margin: 10px 0;">
-      <div></div>
-      <button id="moveNorth">↑ North</button>
-      <div></div>
-      <button id="moveWest">← West</button>
-      <button id="moveCenter">Center</button>
-      <button id="moveEast">→ East</button>
-      <div></div>
-      <button id="moveSouth">↓ South</button>
-      <div></div>
-    </div>
-  `;
-
-  document.getElementById("controlPanel")!.appendChild(movementPanel);
+let map: leaflet.Map;
+let tileProvider = resolveTileProvider(
+  CONFIG.TILES.PARAM,
+  CONFIG.TILES.STORAGE_KEY,
+);
+let tileLayers: leaflet.Layer[] = [];
+
+const mapSettings = new MapSettings(selectTileProvider);
+
+function setupMapSettings(): void {
+  mapSettings.bind(() => ({
+    providers: TILE_PROVIDERS.map(({ id, name }) => ({ id, name })),
+    activeProvider: tileProvider.id,
+    isOnline: navigator.onLine,
+    requiresNetwork: tileProvider.requiresNetwork,
+  })).refresh();
+
+  globalThis.addEventListener("online", () => mapSettings.refresh());
+  globalThis.addEventListener("offline", () => mapSettings.refresh());
 }
 
-function setupMovementControls(): void {
-  const get = (id: string) => document.getElementById(id)!;
-
-  get("moveNorth").addEventListener("click", () => movePlayer("north"));
-  get("moveSouth").addEventListener("click", () => movePlayer("south"));
-  get("moveEast").addEventListener("click", () => movePlayer("east"));
-  get("moveWest").addEventListener("click", () => movePlayer("west"));
-  get("moveCenter").addEventListener("click", () => movePlayer("center"));
+function showTileProvider(provider: TileProvider): void {
+  for (const layer of tileLayers) layer.remove();
+  tileLayers = provider.createLayers();
+  for (const layer of tileLayers) layer.addTo(map);
 }
 
-function movePlayer(
-  direction: "north" | "south" | "east" | "west" | "center",
-): void {
-  let newLat = gameState.player.location.lat;
-  let newLng = gameState.player.location.lng;
+function selectTileProvider(id: string): void {
+  const provider = TILE_PROVIDERS.find((candidate) => candidate.id === id);
+  if (!provider || provider === tileProvider) return;
 
-  switch (direction) {
-    case "north":
-      newLat += CONFIG.TILE_DEGREES;
-      break;
-    case "south":
-      newLat -= CONFIG.TILE_DEGREES;
-      break;
-    case "east":
-      newLng += CONFIG.TILE_DEGREES;
-      break;
-    case "west":
-      newLng -= CONFIG.TILE_DEGREES;
-      break;
-    case "center":
-      newLat = CONFIG.CLASSROOM_LOCATION.lat;
-      newLng = CONFIG.CLASSROOM_LOCATION.lng;
-      break;
-  }
-
-  gameState.player.location = leaflet.latLng(newLat, newLng);
-  map.setView(gameState.player.location, CONFIG.ZOOM_LEVEL);
-  console.log(`Player moved ${direction} to:`, gameState.player.location);
+  tileProvider = provider;
+  saveTileProvider(CONFIG.TILES.STORAGE_KEY, id);
+  showTileProvider(provider);
+  mapSettings.refresh();
+  console.log(`Map tiles: ${provider.name}`);
 }
 
 // =============================================
-// UI MANAGEMENT
+// MULTIPLAYER
 // =============================================
 
-function getInventoryDisplayText(): string {
-  const inventory = gameState.player.inventory;
-  return inventory
-    ? `Inventory: Token (Value: ${inventory.value})`
-    : "Inventory: Empty";
-}
+let syncSession: SyncSession | null = null;
 
-function updateInventoryDisplay(): void {
-  const inventoryDisplay = document.getElementById("inventoryDisplay");
-  if (!inventoryDisplay) return;
+const playersPanel = new PlayersPanel();
 
-  inventoryDisplay.textContent = getInventoryDisplayText();
+// One id per tab, kept across reloads so peers see the same player return
+function getPlayerId(): string {
+  try {
+    const stored = sessionStorage.getItem(CONFIG.SYNC.PLAYER_ID_KEY);
+    if (stored) return stored;
+  } catch (error) {
+    console.warn("Failed to read player id:", error);
+  }
 
-  if (gameState.player.inventory) {
-    inventoryDisplay.style.fontWeight = "bold";
-    inventoryDisplay.style.color = "#ffaa00";
-  } else {
-    inventoryDisplay.style.fontWeight = "normal";
-    inventoryDisplay.style.color = "";
+  const playerId = crypto.randomUUID().slice(0, 8);
+  try {
+    sessionStorage.setItem(CONFIG.SYNC.PLAYER_ID_KEY, playerId);
+  } catch (error) {
+    console.warn("Failed to store player id:", error);
   }
+  return playerId;
 }
 
-function getHighestTokenValue(): number {
-  let highest = 0;
-  for (const cell of activeCells.values()) {
-    if (cell.token && cell.token.value > highest) {
-      highest = cell.token.value;
-    }
+function createSyncTransports(): SyncTransport[] {
+  const transports: SyncTransport[] = [];
+  if ("BroadcastChannel" in globalThis) {
+    transports.push(new BroadcastChannelTransport(CONFIG.SYNC.CHANNEL_NAME));
   }
-  if (
-    gameState.player.inventory && gameState.player.inventory.value > highest
-  ) {
-    highest = gameState.player.inventory.value;
+
+  const relayUrl = new URLSearchParams(globalThis.location.search).get(
+    CONFIG.SYNC.RELAY_PARAM,
+  );
+  if (relayUrl) {
+    transports.push(
+      new WebSocketTransport(relayUrl, CONFIG.SYNC.RELAY_RETRY_MS),
+    );
   }
-  return highest;
+  return transports;
 }
 
-function showVictoryMessage(): void {
-  if (!gameState.isVictoryAchieved) return;
+function getPlayersState(session: SyncSession): PlayersState {
+  const playerCell = engine.getPlayerCell();
+  return {
+    playerId: session.playerId,
+    connections: session.transports.map((transport) => transport.label),
+    peers: session.getPeers().map((peer) => ({
+      peer,
+      distance: world.grid.cellDistance(
+        playerCell,
+        world.grid.worldToCell(peer.location),
+      ),
+    })),
+  };
+}
 
-  const statusPanel = document.getElementById("statusPanel");
-  if (!statusPanel) return;
+// Replays stay offline: what other players changed while the replay was
+// recorded is already among its steps
+function setupMultiplayer(): void {
+  if (isReplayMode) return;
 
-  statusPanel.innerHTML = `🎉 VICTORY ACHIEVED! 🎉<br>` +
-    `Final Score: ${gameState.player.points} points<br>` +
-    `You created a token with value ${CONFIG.VICTORY_THRESHOLD}+!`;
+  const transports = createSyncTransports();
+  if (transports.length === 0) return;
 
-  statusPanel.style.color = "green";
-  statusPanel.style.fontWeight = "bold";
-  statusPanel.style.fontSize = "1.2em";
-  statusPanel.style.textAlign = "center";
+  const session = new SyncSession(engine, transports, {
+    playerId: getPlayerId(),
+    world: getWorldId(world.generation.seed, ruleset.id, world.grid.id),
+    heartbeatMs: CONFIG.SYNC.HEARTBEAT_MS,
+    peerTimeoutMs: CONFIG.SYNC.PEER_TIMEOUT_MS,
+  });
+  syncSession = session;
+
+  session.subscribe(handleSyncEvent);
+  connect(engine, playersPanel, () => getPlayersState(session), [
+    "playerMoved",
+  ]);
+  session.start();
+  console.log(`Multiplayer sync as player ${session.playerId}`);
 }
 
-function updateUI() {
-  const statusPanel = document.getElementById("statusPanel");
-  if (!statusPanel) return;
-
-  if (gameState.isVictoryAchieved) {
-    showVictoryMessage();
-  } else {
-    const highestToken = getHighestTokenValue();
-    statusPanel.innerHTML = `Points: ${gameState.player.points} | ` +
-      `Goal: Create a ${CONFIG.VICTORY_THRESHOLD} token | ` +
-      `Range: ${CONFIG.INTERACTION_RANGE} cells | Highest: ${highestToken}`;
+function handleSyncEvent(event: SyncEvent): void {
+  switch (event.type) {
+    case "peerMoved":
+      renderer.showPeer(event.peer.playerId, event.peer.location);
+      break;
+    case "peerLeft":
+      renderer.removePeer(event.playerId);
+      break;
+    case "cellsReceived":
+      recordStep({
+        type: "cells",
+        mementos: event.cellKeys.map((cellKey) =>
+          world.caretaker.getState(cellKey)!
+        ),
+      });
+      persistGame();
+      break;
   }
+  playersPanel.refresh();
 }
 
 // =============================================
-// CELL INTERACTION
+// STORAGE
 // =============================================
 
-function handleCellClick(cell: GridCell) {
-  console.log(`Cell clicked: (${cell.coordinates.i}, ${cell.coordinates.j})`);
-  console.log(`Token in cell:`, cell.token);
-  console.log(`Player inventory:`, gameState.player.inventory);
-  console.log(`Interactable: ${isCellInteractable(cell)}`);
-
-  if (!isCellInteractable(cell)) {
-    provideVisualFeedback(cell, "outOfRange");
-
-    const statusPanel = document.getElementById("statusPanel");
-    if (statusPanel) {
-      const originalText = statusPanel.textContent;
-      statusPanel.textContent =
-        "Too far! You can only interact with cells within 3 tiles.";
-      setTimeout(() => statusPanel.textContent = originalText, 2000);
-    }
-    return;
-  }
+let storageCompactor: StorageCompactor;
 
-  let action: "pickup" | "drop" | "merge" | "invalid" = "invalid";
-  let success = false;
-
-  if (hasToken(cell) && !isPlayerHoldingToken()) {
-    pickupTokenFromCell(cell);
-    action = "pickup";
-    success = true;
-  } else if (hasToken(cell) && isPlayerHoldingToken()) {
-    success = attemptMerge(cell);
-    action = success ? "merge" : "invalid";
-  } else if (!hasToken(cell) && isPlayerHoldingToken()) {
-    success = dropTokenToCell(cell);
-    action = success ? "drop" : "invalid";
-  }
+// Replays never page: their cells only live as long as the replay does.
+// With paging turned off, cells an earlier session paged out are still
+// brought back before the archive is given up.
+async function setupStorage(): Promise<void> {
+  storageCompactor = new StorageCompactor(engine, {
+    compactEveryDespawns: CONFIG.STORAGE.COMPACT_EVERY_DESPAWNS,
+    pageOutChunks: CONFIG.STORAGE.PAGE_OUT_CHUNKS,
+    pageInChunks: CONFIG.STORAGE.PAGE_IN_CHUNKS,
+  });
 
-  provideVisualFeedback(cell, action);
-  if (success) updateInteractionRangeDisplay();
+  const params = new URLSearchParams(globalThis.location.search);
+  const usePaging = params.get(CONFIG.STORAGE.PAGING_PARAM) !== "off";
+  const archive = isReplayMode
+    ? null
+    : await MementoArchive.open(CONFIG.STORAGE.DATABASE_NAME);
+
+  // Paging moves cells between memory and the archive, so the saved game
+  // has to follow
+  storageCompactor.subscribe(() => persistGame());
+  await storageCompactor.start(archive, !worldSettings.restoreSave);
+  if (archive && !usePaging && !await storageCompactor.releaseArchive()) {
+    console.warn("Some paged cells could not be read back; paging stays on");
+  }
+  console.log(
+    storageCompactor.isPaging()
+      ? "Paging distant cells to IndexedDB"
+      : "Cell paging is off",
+  );
 }
 
-function provideVisualFeedback(
-  cell: GridCell,
-  action: "pickup" | "drop" | "merge" | "invalid" | "outOfRange",
-) {
-  if (!cell.element) return;
+// =============================================
+// GAME MODE
+// =============================================
 
-  const styles = {
-    pickup: { color: "#00ff00", weight: 4 },
-    drop: { color: "#00ffff", weight: 4 },
-    merge: { color: "#aa00ff", weight: 5 },
-    invalid: { color: "#ff0000", weight: 4 },
-    outOfRange: { color: "#888888", weight: 4 },
-  };
+let modeController: ModeController;
 
-  cell.element.setStyle(styles[action]);
-  setTimeout(
-    () => updateCellVisualization(cell),
-    CONFIG.UI.HIGHLIGHT_DURATION_MS,
-  );
+// Replays show their mode but never end it: their clock started long ago
+function setupGameMode(session: ModeSession): void {
+  modeController = new ModeController(engine, worldSettings.mode, session);
+  modeController.subscribe(handleModeEvent);
+  if (!isReplayMode) modeController.start();
+}
+
+function handleModeEvent(event: ModeEvent): void {
+  statusBar.refresh();
+  if (event.type === "ended") {
+    historyControls.refresh();
+    console.log(`Game over (${modeController.mode.name}):`, event.summary);
+    persistGame();
+    showModeSummary(event.summary);
+  }
+}
+
+function getStartingModeSession(): ModeSession {
+  if (replayRecording) return replayRecording.start.mode;
+  if (savedGame && worldSettings.restoreSave) return savedGame.mode;
+  return createModeSession(worldSettings.mode.id, Date.now());
 }
 
 // =============================================
 // INITIALIZATION
 // =============================================
 
-const gameState: GameState = {
-  player: {
-    inventory: null,
-    location: CONFIG.CLASSROOM_LOCATION,
-    points: 0,
-  },
-  visibleCells: new Set<CellKey>(),
-  victoryCondition: CONFIG.VICTORY_THRESHOLD,
-  isVictoryAchieved: false,
+// Replays are opened through a URL flag and play the last stored recording
+const replayRecording =
+  new URLSearchParams(globalThis.location.search).has(CONFIG.REPLAY_PARAM)
+    ? readReplayRecording()
+    : null;
+const isReplayMode = replayRecording !== null;
+
+const savedGame = readSavedGame();
+const worldSettings: WorldSettings = replayRecording
+  ? {
+    seed: replayRecording.start.world.seed,
+    ruleset: resolveRuleset(replayRecording.start.world.rulesetId),
+    grid: resolveGrid(replayRecording.start.world.gridId),
+    mode: resolveMode(replayRecording.start.mode.modeId),
+    restoreSave: false,
+  }
+  : resolveWorldSettings(savedGame);
+const ruleset = worldSettings.ruleset;
+
+const player: PlayerState = {
+  inventory: new Array<Token | null>(ruleset.inventorySlots).fill(null),
+  activeSlot: 0,
+  location: { ...CONFIG.CLASSROOM_LOCATION },
+  points: 0,
 };
 
-let map: leaflet.Map;
-let playerMarker: leaflet.Marker;
+// A replay's clock starts where its recording did
+const world = new GameWorld(
+  {
+    seed: worldSettings.seed,
+    ruleset,
+    grid: worldSettings.grid,
+    spawnCenter: getSpawnCenter(worldSettings.grid),
+  },
+  undefined,
+  undefined,
+  replayRecording?.start.savedAt,
+);
+const engine = new GameEngine(world, player);
+
+let renderer: LeafletRenderer;
+
+const mapElement = h("div", { id: "map" });
 
 function initializeDOM() {
-  document.body.innerHTML = `
-    <div id="controlPanel">
-      <h2>World of Bits Game</h2>
-      <div id="inventoryDisplay" class="${CONFIG.UI.INVENTORY_CLASS}">Inventory: Empty</div>
-      <div id="gameInstructions">
-        <p>Click cells to collect and merge tokens!</p>
-        <p>Goal: Create a token with value ${CONFIG.VICTORY_THRESHOLD}</p>
-        <p><strong>How to play:</strong></p>
-        <ul>
-          <li>Click a token cell to pick it up</li>
-          <li>Click an empty cell to drop your token</li>
-          <li>Click a token cell while holding a token of equal value to merge them</li>
-          <li>Merging creates a new token with doubled value</li>
-          <li>Earn points when you merge tokens!</li>
-          <li>Use the movement buttons to navigate the map</li>
-        </ul>
-      </div>
-    </div>
-    <div id="map"></div>
-    <div id="statusPanel">Points: 0 | Goal: Reach value ${CONFIG.VICTORY_THRESHOLD} | Highest: 0</div>
-  `;
-
-  addMovementControls();
-}
-
-function initializeMap(): leaflet.Map {
-  const mapInstance = leaflet.map("map", {
-    center: CONFIG.CLASSROOM_LOCATION,
+  const instructions = new Instructions();
+  instructions.update({ ruleset, mode: worldSettings.mode });
+  worldPanel.update({
+    seed: world.generation.seed,
+    rulesetName: ruleset.name,
+    gridName: world.grid.name,
+  });
+
+  const panels: Child[] = [
+    h("h2", { text: "World of Bits Game" }),
+    inventoryBar.element,
+    instructions.element,
+    worldPanel.element,
+    mapSettings.element,
+    movementPad.element,
+    historyControls.element,
+    h(
+      "div",
+      { className: "panel-row" },
+      h("label", {}, highContrastToggle, " High contrast cells"),
+    ),
+    nearbyCellsPanel.element,
+    replayPanel.element,
+    controlsPanel.element,
+    achievementsPanel.element,
+    !isReplayMode && playersPanel.element,
+    debugPanel.element,
+  ];
+  document.body.replaceChildren(
+    h("div", { id: "controlPanel" }, ...panels),
+    mapElement,
+    statusBar.element,
+    toasts.element,
+    modal.element,
+    announcer.element,
+  );
+}
+
+function initializeMap(): void {
+  map = leaflet.map(mapElement, {
+    center: player.location,
     zoom: CONFIG.ZOOM_LEVEL,
     minZoom: CONFIG.ZOOM_LEVEL,
     maxZoom: CONFIG.ZOOM_LEVEL,
@@ -999,30 +1543,68 @@ function initializeMap(): leaflet.Map {
     scrollWheelZoom: false,
   });
 
-  leaflet.tileLayer("https://tile.openstreetmap.org/{z}/{x}/{y}.png", {
-    maxZoom: 19,
-    attribution: "&copy; OpenStreetMap contributors",
-  }).addTo(mapInstance);
-
-  playerMarker = leaflet.marker(CONFIG.CLASSROOM_LOCATION);
-  playerMarker.bindTooltip("Your location");
-  playerMarker.addTo(mapInstance);
-
-  return mapInstance;
+  showTileProvider(tileProvider);
 }
 
 function initializeGame() {
   initializeDOM();
-  map = initializeMap();
+  if (replayRecording) {
+    applySaveDocument(replayRecording.start, world, player);
+    console.log(
+      `Replaying ${replayRecording.steps.length} recorded steps`,
+    );
+  } else {
+    // The save slot's cells are read chunk by chunk as they come into view
+    if (!worldSettings.restoreSave) saveSlotChunks.clear();
+    world.caretaker.attachStore(saveSlotChunks);
+  }
+  if (!replayRecording && savedGame && worldSettings.restoreSave) {
+    applySaveDocument(savedGame, world, player);
+    console.log(
+      `Restored saved game (${world.caretaker.getChunkKeys().length} ` +
+        `chunks of modified cells, ${savedGame.player.points} points)`,
+    );
+  }
+
+  // Keep the address bar pointing at the world being played
+  const worldUrl = getWorldUrl(getCurrentWorld(), worldSettings.mode.id);
+  if (isReplayMode) worldUrl.searchParams.set(CONFIG.REPLAY_PARAM, "1");
+  globalThis.history.replaceState(null, "", worldUrl);
+
+  initializeMap();
+  renderer = new LeafletRenderer(map, engine, handleCellClick);
+  // Statistics must see each event before the UI checks achievements
+  setupProgressTracking(
+    savedGame && worldSettings.restoreSave && !isReplayMode
+      ? savedGame.progress
+      : null,
+  );
+  engine.subscribe(handleGameEvent);
 
+  setupGameMode(getStartingModeSession());
+  setupStatusComponents();
   setupMovementControls();
-  addDebugControls();
-  cleanupAllCells();
-  updateCellVisibility();
+  setupHistoryControls();
+  setupReplayControls();
+  setupInputControls();
+  setupMapSettings();
+  setupMultiplayer();
+  setupStorage().catch((error) =>
+    console.warn("Could not set up cell storage:", error)
+  );
+  engine.updateVisibleCells(renderer.getVisibleCells());
+  setInterval(tickWorldTime, CONFIG.WORLD_TIME_TICK_MS);
+  setupAccessibility();
+  renderer.refreshCells();
+
+  globalThis.addEventListener("pagehide", () => {
+    stopRecording();
+    syncSession?.stop();
+    persistGame();
+  });
 
-  map.on("moveend", handleMapMove);
-  updateInventoryDisplay();
-  updateUI();
+  addWebManifest();
+  registerServiceWorker();
 
   // Log initial memory stats
   setTimeout(logMemoryStats, 1000);
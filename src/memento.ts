@@ -0,0 +1,212 @@
+import { getChunkKey } from "./grid.ts";
+import type { CellKey, ChunkKey, Token } from "./types.ts";
+
+// =============================================
+// MEMENTO PATTERN IMPLEMENTATION
+// =============================================
+
+export interface CellMemento {
+  cellKey: string;
+  token: Token | null;
+  timestamp: number;
+}
+
+export class CellOriginator {
+  createMemento(
+    cellKey: string,
+    token: Token | null,
+    timestamp = Date.now(),
+  ): CellMemento {
+    return {
+      cellKey,
+      token: token ? { ...token } : null,
+      timestamp,
+    };
+  }
+
+  restoreFromMemento(memento: CellMemento): { token: Token | null } {
+    return {
+      token: memento.token ? { ...memento.token } : null,
+    };
+  }
+}
+
+// Keeps chunks of cell state between sessions. Reads are synchronous so
+// that a cell's state is there the moment the cell spawns. Writing an empty
+// chunk removes it; a failed write returns false.
+export interface ChunkStore {
+  listChunks(): ChunkKey[];
+  readChunk(chunkKey: ChunkKey): CellMemento[];
+  writeChunk(chunkKey: ChunkKey, mementos: CellMemento[]): boolean;
+  clear(): void;
+}
+
+export interface ChunkStats {
+  loaded: number;
+  unloaded: number; // Only in the store so far
+  dirty: number; // Changed since the last flush
+}
+
+// Mementos are grouped by region chunk. With a store attached, a chunk is
+// read the first time one of its cells is asked for, and flush() writes
+// back only the chunks that changed.
+export class CellCaretaker {
+  private chunks = new Map<ChunkKey, Map<CellKey, CellMemento>>();
+  private unloadedChunks = new Set<ChunkKey>();
+  private dirtyChunks = new Set<ChunkKey>();
+  private store: ChunkStore | null = null;
+  private originator = new CellOriginator();
+
+  // Chunks already in memory win over the stored ones
+  attachStore(store: ChunkStore): void {
+    this.store = store;
+    for (const chunkKey of store.listChunks()) {
+      if (!this.chunks.has(chunkKey)) this.unloadedChunks.add(chunkKey);
+    }
+  }
+
+  // The timestamp is when the cell last changed, in world time
+  saveState(cellKey: string, token: Token | null, timestamp?: number): void {
+    const memento = this.originator.createMemento(cellKey, token, timestamp);
+    this.getChunk(cellKey, true)!.set(cellKey, memento);
+  }
+
+  restoreState(cellKey: string): Token | null {
+    const memento = this.getState(cellKey);
+    if (!memento) return null;
+
+    const state = this.originator.restoreFromMemento(memento);
+    return state.token;
+  }
+
+  getState(cellKey: string): CellMemento | undefined {
+    return this.getChunk(cellKey, false)?.get(cellKey);
+  }
+
+  // Stores a memento made elsewhere, keeping its timestamp
+  putState(memento: CellMemento): void {
+    this.getChunk(memento.cellKey, true)!.set(memento.cellKey, {
+      cellKey: memento.cellKey,
+      token: memento.token ? { ...memento.token } : null,
+      timestamp: memento.timestamp,
+    });
+  }
+
+  // Only counts the chunks in memory
+  getStateCount(): number {
+    let count = 0;
+    for (const chunk of this.chunks.values()) count += chunk.size;
+    return count;
+  }
+
+  hasState(cellKey: string): boolean {
+    return this.getState(cellKey) !== undefined;
+  }
+
+  clearState(cellKey: string): void {
+    if (this.getChunk(cellKey, false)?.delete(cellKey)) {
+      this.dirtyChunks.add(getChunkKey(cellKey));
+    }
+  }
+
+  // Forgets every memento, the stored ones with the next flush
+  clearAllStates(): void {
+    if (!this.store) {
+      this.chunks.clear();
+      return;
+    }
+    for (const chunkKey of this.getChunkKeys()) {
+      this.chunks.set(chunkKey, new Map());
+      this.dirtyChunks.add(chunkKey);
+    }
+    this.unloadedChunks.clear();
+  }
+
+  // Reads every stored chunk; getLoadedStates() avoids that where the
+  // cells in memory are enough
+  getAllStates(): Map<string, CellMemento> {
+    for (const chunkKey of Array.from(this.unloadedChunks)) {
+      this.loadChunk(chunkKey);
+    }
+    return this.getLoadedStates();
+  }
+
+  getLoadedStates(): Map<string, CellMemento> {
+    const states = new Map<string, CellMemento>();
+    for (const chunk of this.chunks.values()) {
+      for (const [cellKey, memento] of chunk) states.set(cellKey, memento);
+    }
+    return states;
+  }
+
+  getChunkKeys(): ChunkKey[] {
+    return [...this.chunks.keys(), ...this.unloadedChunks];
+  }
+
+  getChunkStates(chunkKey: ChunkKey): CellMemento[] {
+    if (this.unloadedChunks.has(chunkKey)) this.loadChunk(chunkKey);
+    return Array.from(this.chunks.get(chunkKey)?.values() ?? []);
+  }
+
+  getChunkStats(): ChunkStats {
+    return {
+      loaded: this.chunks.size,
+      unloaded: this.unloadedChunks.size,
+      dirty: this.dirtyChunks.size,
+    };
+  }
+
+  // Replaces every stored memento, keeping the original timestamps
+  loadStates(mementos: Iterable<CellMemento>): void {
+    this.clearAllStates();
+    for (const memento of mementos) {
+      this.putState(memento);
+    }
+  }
+
+  // Writes the changed chunks to the store and returns how many were
+  // written. A chunk that fails to write stays dirty for the next flush.
+  flush(): number {
+    if (!this.store) return 0;
+
+    let written = 0;
+    for (const chunkKey of Array.from(this.dirtyChunks)) {
+      const chunk = this.chunks.get(chunkKey) ?? new Map<CellKey, never>();
+      if (!this.store.writeChunk(chunkKey, Array.from(chunk.values()))) {
+        continue;
+      }
+      this.dirtyChunks.delete(chunkKey);
+      if (chunk.size === 0) this.chunks.delete(chunkKey);
+      written++;
+    }
+    return written;
+  }
+
+  private loadChunk(chunkKey: ChunkKey): void {
+    this.unloadedChunks.delete(chunkKey);
+    const chunk = new Map<CellKey, CellMemento>();
+    for (const memento of this.store?.readChunk(chunkKey) ?? []) {
+      chunk.set(memento.cellKey, memento);
+    }
+    this.chunks.set(chunkKey, chunk);
+  }
+
+  // Reading a cell loads its chunk on demand; writing marks the chunk dirty
+  private getChunk(
+    cellKey: CellKey,
+    forWriting: boolean,
+  ): Map<CellKey, CellMemento> | undefined {
+    const chunkKey = getChunkKey(cellKey);
+    if (this.unloadedChunks.has(chunkKey)) this.loadChunk(chunkKey);
+
+    let chunk = this.chunks.get(chunkKey);
+    if (forWriting) {
+      if (!chunk) {
+        chunk = new Map();
+        this.chunks.set(chunkKey, chunk);
+      }
+      this.dirtyChunks.add(chunkKey);
+    }
+    return chunk;
+  }
+}
@@ -0,0 +1,339 @@
+import luck from "./_luck.ts";
+import { CONFIG } from "./config.ts";
+import type { GameEngine, GameEvent } from "./engine.ts";
+import { DEFAULT_GRID_ID } from "./grid.ts";
+import { DEFAULT_RULESET_ID, type Ruleset } from "./rulesets.ts";
+import { formatPlayTime } from "./stats.ts";
+
+// =============================================
+// GAME MODES
+// =============================================
+
+export type GameModeId = "freePlay" | "timed" | "daily";
+
+export type ModeEndReason = "goalReached" | "timeUp";
+
+export interface ModeResult {
+  reason: ModeEndReason;
+  endedAt: number;
+  score: number; // Meaning depends on the mode, see GameMode.score
+}
+
+// The saved progress of one game in a mode
+export interface ModeSession {
+  modeId: GameModeId;
+  startedAt: number;
+  highestValue: number; // Highest token created by a merge
+  result: ModeResult | null; // Set once the mode's end condition is met
+}
+
+export interface WorldChoice {
+  seed: string;
+  rulesetId: string;
+  gridId: string;
+}
+
+export interface ModeContext {
+  session: ModeSession;
+  ruleset: Ruleset;
+  points: number;
+  now: number;
+}
+
+export interface ModeSummary {
+  title: string;
+  lines: string[];
+}
+
+// A mode decides which world a game is played in, when the game is over
+// and how it is scored. Modes hold no state: everything lives in the
+// ModeSession so that it can be saved.
+export interface GameMode {
+  id: GameModeId;
+  name: string;
+  description: string;
+  choosesWorld: boolean; // Ignores the requested seed and rules
+  endsGame: boolean; // No more interactions once the mode is over
+  resolveWorld(requested: WorldChoice, now: Date): WorldChoice;
+  checkEnd(context: ModeContext): ModeEndReason | null;
+  score(context: ModeContext): number;
+  describeGoal(context: ModeContext): string;
+  describeClock(context: ModeContext): string | null;
+  summarize(context: ModeContext, result: ModeResult): ModeSummary;
+}
+
+function hasReachedGoal(context: ModeContext): boolean {
+  return context.session.highestValue >= context.ruleset.victoryThreshold;
+}
+
+function getElapsed(context: ModeContext): number {
+  const end = context.session.result?.endedAt ?? context.now;
+  return Math.max(0, end - context.session.startedAt);
+}
+
+// Dates are taken in UTC so that everyone shares the same daily world
+export function getDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function getDailySeed(date: Date): string {
+  const dateKey = getDateKey(date);
+  const roll = Math.floor(luck(`daily:${dateKey}`) * 2 ** 30).toString(36);
+  return `daily-${dateKey}-${roll}`;
+}
+
+export const GAME_MODES: readonly GameMode[] = [
+  {
+    id: "freePlay",
+    name: "Free Play",
+    description: "Explore at your own pace and create the goal token to win.",
+    choosesWorld: false,
+    endsGame: false,
+    resolveWorld: (requested) => requested,
+    checkEnd: (context) => hasReachedGoal(context) ? "goalReached" : null,
+    score: (context) => context.points,
+    describeGoal: (context) =>
+      `Goal: Create a ${context.ruleset.victoryThreshold} token`,
+    describeClock: () => null,
+    summarize: (context, result) => ({
+      title: "🎉 Victory Achieved! 🎉",
+      lines: [
+        `You created a token with value ${context.session.highestValue}, ` +
+        `reaching the goal of ${context.ruleset.victoryThreshold}.`,
+        `Final Score: ${result.score} points`,
+      ],
+    }),
+  },
+  {
+    id: "timed",
+    name: "Timed Challenge",
+    description: `Create the highest token you can in ${
+      CONFIG.MODES.TIMED_DURATION_MS / 60_000
+    } minutes.`,
+    choosesWorld: false,
+    endsGame: true,
+    resolveWorld: (requested) => requested,
+    checkEnd: (context) =>
+      getElapsed(context) >= CONFIG.MODES.TIMED_DURATION_MS ? "timeUp" : null,
+    score: (context) => context.session.highestValue,
+    describeGoal: () => "Goal: Create the highest token you can",
+    describeClock: (context) =>
+      `Time left: ${
+        formatPlayTime(
+          Math.max(0, CONFIG.MODES.TIMED_DURATION_MS - getElapsed(context)),
+        )
+      }`,
+    summarize: (context, result) => ({
+      title: "⏱ Time's Up!",
+      lines: [
+        `Highest token created: ${result.score || "none"}`,
+        `Points: ${context.points}`,
+      ],
+    }),
+  },
+  {
+    id: "daily",
+    name: "Daily Challenge",
+    description:
+      "Everyone gets the same world today. Create the goal token as fast as you can.",
+    choosesWorld: true,
+    endsGame: false,
+    resolveWorld: (_requested, now) => ({
+      seed: getDailySeed(now),
+      rulesetId: DEFAULT_RULESET_ID,
+      gridId: DEFAULT_GRID_ID,
+    }),
+    checkEnd: (context) => hasReachedGoal(context) ? "goalReached" : null,
+    score: (context) => getElapsed(context),
+    describeGoal: (context) =>
+      `Goal: Create a ${context.ruleset.victoryThreshold} token, fast`,
+    describeClock: (context) => `Time: ${formatPlayTime(getElapsed(context))}`,
+    summarize: (context, result) => ({
+      title: "📅 Daily Challenge Complete!",
+      lines: [
+        `Solved the ${
+          getDateKey(new Date(context.session.startedAt))
+        } challenge in ${formatPlayTime(result.score)}.`,
+        `Points: ${context.points}`,
+      ],
+    }),
+  },
+];
+
+export const DEFAULT_MODE_ID: GameModeId = "freePlay";
+
+export function findGameMode(id: string): GameMode | undefined {
+  return GAME_MODES.find((mode) => mode.id === id);
+}
+
+export function createModeSession(
+  modeId: GameModeId,
+  startedAt: number,
+): ModeSession {
+  return { modeId, startedAt, highestValue: 0, result: null };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isCount(value: unknown): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+// Returns one message per schema violation; an empty list means valid
+export function validateModeSession(value: unknown): string[] {
+  if (!isRecord(value)) return ["mode must be an object"];
+
+  const errors: string[] = [];
+  if (typeof value.modeId !== "string" || !findGameMode(value.modeId)) {
+    errors.push("mode.modeId must name a known game mode");
+  }
+  if (!isCount(value.startedAt)) {
+    errors.push("mode.startedAt must be a timestamp");
+  }
+  if (!isCount(value.highestValue)) {
+    errors.push("mode.highestValue must be a non-negative integer");
+  }
+
+  const result = value.result;
+  if (result !== null) {
+    if (
+      !isRecord(result) ||
+      (result.reason !== "goalReached" && result.reason !== "timeUp") ||
+      !isCount(result.endedAt) || !isCount(result.score)
+    ) {
+      errors.push("mode.result must be null or a finished game's result");
+    }
+  }
+  return errors;
+}
+
+// =============================================
+// MODE CONTROLLER
+// =============================================
+
+export type ModeEvent =
+  | { type: "tick" } // The clock moved on
+  | { type: "ended"; summary: ModeSummary };
+
+export interface ModeStatus {
+  goal: string;
+  clock: string | null;
+  summary: ModeSummary | null; // Set once the game is over
+}
+
+// Runs a mode against an engine: tracks the highest merged token, keeps the
+// clock going for modes that have one and reports when the mode is over
+export class ModeController {
+  private session: ModeSession;
+  private listeners = new Set<(event: ModeEvent) => void>();
+  private unsubscribe: (() => void) | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private engine: GameEngine,
+    readonly mode: GameMode,
+    session: ModeSession,
+  ) {
+    this.session = structuredClone(session);
+  }
+
+  subscribe(listener: (event: ModeEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Also ends a mode whose time ran out while the game was closed
+  start(): void {
+    this.unsubscribe = this.engine.subscribe((event) =>
+      this.handleEvent(event)
+    );
+    if (this.mode.describeClock(this.getContext()) !== null) {
+      this.timer = setInterval(() => this.tick(), CONFIG.MODES.CLOCK_TICK_MS);
+    }
+    this.checkEnd();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.stopClock();
+  }
+
+  snapshot(): ModeSession {
+    return structuredClone(this.session);
+  }
+
+  isOver(): boolean {
+    return this.session.result !== null;
+  }
+
+  // Whether the player may still act on cells
+  isPlayable(): boolean {
+    return !(this.isOver() && this.mode.endsGame);
+  }
+
+  getStatus(): ModeStatus {
+    const context = this.getContext();
+    const result = this.session.result;
+    return {
+      goal: this.mode.describeGoal(context),
+      clock: this.mode.describeClock(context),
+      summary: result ? this.mode.summarize(context, result) : null,
+    };
+  }
+
+  private getContext(): ModeContext {
+    return {
+      session: this.session,
+      ruleset: this.engine.ruleset,
+      points: this.engine.player.points,
+      now: Date.now(),
+    };
+  }
+
+  private emit(event: ModeEvent): void {
+    for (const listener of this.listeners) listener(event);
+  }
+
+  private handleEvent(event: GameEvent): void {
+    if (
+      event.type === "cellInteraction" && event.action === "merge" &&
+      event.cell.token
+    ) {
+      this.session.highestValue = Math.max(
+        this.session.highestValue,
+        event.cell.token.value,
+      );
+      this.checkEnd();
+    }
+  }
+
+  private tick(): void {
+    this.checkEnd();
+    this.emit({ type: "tick" });
+  }
+
+  private stopClock(): void {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private checkEnd(): void {
+    if (this.isOver()) return;
+
+    const context = this.getContext();
+    const reason = this.mode.checkEnd(context);
+    if (!reason) return;
+
+    const result: ModeResult = {
+      reason,
+      endedAt: context.now,
+      score: this.mode.score(context),
+    };
+    this.session.result = result;
+    this.stopClock();
+    this.emit({ type: "ended", summary: this.mode.summarize(context, result) });
+  }
+}
@@ -0,0 +1,186 @@
+import { CONFIG } from "./config.ts";
+import type { GridProjection } from "./grid.ts";
+
+// =============================================
+// MOVEMENT PROVIDERS
+// =============================================
+
+export type Direction = "north" | "south" | "east" | "west" | "center";
+
+export interface GeoPosition {
+  lat: number;
+  lng: number;
+}
+
+export interface MovementProvider {
+  readonly label: string;
+  start(): void;
+  stop(): void;
+}
+
+// Only the fields we read from a GeolocationPosition
+export interface PositionSample {
+  coords: { latitude: number; longitude: number };
+}
+
+// The subset of the Geolocation API the geolocation provider depends on.
+// `navigator.geolocation` satisfies it; tests can pass a ReplayPositionSource.
+export interface PositionSource {
+  watchPosition(
+    onPosition: (position: PositionSample) => void,
+    onError?: (error: GeolocationPositionError) => void,
+    options?: PositionOptions,
+  ): number;
+  clearWatch(watchId: number): void;
+}
+
+// Where one cell's step in a direction leads; "center" returns to the
+// classroom
+export function stepLocation(
+  grid: GridProjection,
+  location: GeoPosition,
+  direction: Direction,
+): GeoPosition {
+  switch (direction) {
+    case "north":
+      return grid.step(location, 1, 0);
+    case "south":
+      return grid.step(location, -1, 0);
+    case "east":
+      return grid.step(location, 0, 1);
+    case "west":
+      return grid.step(location, 0, -1);
+    case "center":
+      return { ...CONFIG.CLASSROOM_LOCATION };
+  }
+}
+
+// =============================================
+// BUTTON MOVEMENT
+// =============================================
+
+export class ButtonMovementProvider implements MovementProvider {
+  readonly label = "Buttons";
+  private listeners = new Map<Direction, () => void>();
+
+  constructor(
+    private buttons: Record<Direction, HTMLButtonElement>,
+    private onStep: (direction: Direction) => void,
+  ) {}
+
+  start(): void {
+    for (const [direction, button] of this.entries()) {
+      const listener = () => this.onStep(direction);
+      this.listeners.set(direction, listener);
+      button.addEventListener("click", listener);
+      button.disabled = false;
+    }
+  }
+
+  stop(): void {
+    for (const [direction, button] of this.entries()) {
+      const listener = this.listeners.get(direction);
+      if (listener) button.removeEventListener("click", listener);
+      button.disabled = true;
+    }
+    this.listeners.clear();
+  }
+
+  private entries(): [Direction, HTMLButtonElement][] {
+    return Object.entries(this.buttons) as [Direction, HTMLButtonElement][];
+  }
+}
+
+// =============================================
+// GEOLOCATION MOVEMENT
+// =============================================
+
+export class GeolocationMovementProvider implements MovementProvider {
+  readonly label = "Device location";
+  private watchId: number | null = null;
+  private lastPosition: GeoPosition | null = null;
+
+  constructor(
+    private source: PositionSource,
+    private snapToCell: (position: GeoPosition) => GeoPosition,
+    private onMove: (position: GeoPosition) => void,
+    private onError: (error: GeolocationPositionError) => void = () => {},
+  ) {}
+
+  start(): void {
+    if (this.watchId !== null) return;
+
+    this.lastPosition = null;
+    this.watchId = this.source.watchPosition(
+      (sample) => this.handleSample(sample),
+      (error) => this.onError(error),
+      { enableHighAccuracy: true },
+    );
+  }
+
+  stop(): void {
+    if (this.watchId === null) return;
+
+    this.source.clearWatch(this.watchId);
+    this.watchId = null;
+  }
+
+  private handleSample(sample: PositionSample): void {
+    const snapped = this.snapToCell({
+      lat: sample.coords.latitude,
+      lng: sample.coords.longitude,
+    });
+
+    // GPS jitter inside a single cell should not move the player
+    if (
+      this.lastPosition &&
+      this.lastPosition.lat === snapped.lat &&
+      this.lastPosition.lng === snapped.lng
+    ) {
+      return;
+    }
+
+    this.lastPosition = snapped;
+    this.onMove(snapped);
+  }
+}
+
+// =============================================
+// REPLAYED POSITIONS
+// =============================================
+
+// Feeds a recorded walk to its watchers one sample at a time, so the
+// geolocation provider can be exercised without a device.
+export class ReplayPositionSource implements PositionSource {
+  private watchers = new Map<number, (position: PositionSample) => void>();
+  private nextWatchId = 1;
+  private index = 0;
+
+  constructor(private path: GeoPosition[]) {}
+
+  watchPosition(onPosition: (position: PositionSample) => void): number {
+    const watchId = this.nextWatchId++;
+    this.watchers.set(watchId, onPosition);
+    return watchId;
+  }
+
+  clearWatch(watchId: number): void {
+    this.watchers.delete(watchId);
+  }
+
+  // Emits the next recorded position; returns false once the walk is over
+  step(): boolean {
+    if (this.index >= this.path.length) return false;
+
+    const { lat, lng } = this.path[this.index++];
+    const sample = { coords: { latitude: lat, longitude: lng } };
+    for (const watcher of this.watchers.values()) {
+      watcher(sample);
+    }
+    return true;
+  }
+
+  isFinished(): boolean {
+    return this.index >= this.path.length;
+  }
+}
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { CONFIG } from "./config.ts";
+import { GameEngine, GameWorld } from "./engine.ts";
+import { findGridProjection } from "./grid.ts";
+import {
+  GeolocationMovementProvider,
+  type GeoPosition,
+  ReplayPositionSource,
+} from "./movement.ts";
+import { findRuleset } from "./rulesets.ts";
+import { getSpawnCenter } from "./worldgen.ts";
+
+const grid = findGridProjection("latLng")!;
+const start = CONFIG.CLASSROOM_LOCATION;
+
+function createEngine(): GameEngine {
+  const world = new GameWorld({
+    seed: "movement-test",
+    ruleset: findRuleset("classic")!,
+    grid,
+    spawnCenter: getSpawnCenter(grid),
+  });
+  return new GameEngine(world, {
+    inventory: [null],
+    activeSlot: 0,
+    location: { ...start },
+    points: 0,
+  });
+}
+
+function snapToCell(position: GeoPosition): GeoPosition {
+  return grid.getCellCenter(grid.worldToCell(position));
+}
+
+// Walks the engine's player along `path` through the geolocation provider
+function walk(engine: GameEngine, path: GeoPosition[]) {
+  const source = new ReplayPositionSource(path);
+  const moves: GeoPosition[] = [];
+  const provider = new GeolocationMovementProvider(
+    source,
+    snapToCell,
+    (position) => {
+      moves.push(position);
+      engine.movePlayer(position);
+    },
+  );
+  return { source, provider, moves };
+}
+
+Deno.test("the player follows a replayed walk cell by cell", () => {
+  const engine = createEngine();
+  const path = [0, 1, 2, 3].map((cells) => ({
+    lat: start.lat + cells * CONFIG.TILE_DEGREES,
+    lng: start.lng,
+  }));
+  const { source, provider, moves } = walk(engine, path);
+  provider.start();
+
+  for (const position of path) {
+    assert.ok(source.step());
+    assert.deepStrictEqual(engine.player.location, snapToCell(position));
+  }
+  assert.ok(source.isFinished());
+  assert.ok(!source.step());
+  assert.equal(moves.length, path.length);
+
+  const startCell = grid.worldToCell(start);
+  assert.deepStrictEqual(engine.getPlayerCell(), {
+    i: startCell.i + 3,
+    j: startCell.j,
+  });
+});
+
+Deno.test("jitter inside one cell does not move the player", () => {
+  const engine = createEngine();
+  const center = snapToCell(start);
+  const jitter = CONFIG.TILE_DEGREES / 10;
+  const { source, provider, moves } = walk(engine, [
+    center,
+    { lat: center.lat + jitter, lng: center.lng - jitter },
+    { lat: center.lat - jitter, lng: center.lng + jitter },
+  ]);
+  provider.start();
+
+  while (source.step());
+  assert.equal(moves.length, 1);
+  assert.deepStrictEqual(engine.player.location, center);
+});
+
+Deno.test("a stopped provider ignores further positions", () => {
+  const engine = createEngine();
+  const far = { lat: start.lat + 0.01, lng: start.lng + 0.01 };
+  const { source, provider, moves } = walk(engine, [start, far]);
+  provider.start();
+
+  source.step();
+  provider.stop();
+  source.step();
+  assert.equal(moves.length, 1);
+  assert.deepStrictEqual(engine.player.location, snapToCell(start));
+});
@@ -0,0 +1,49 @@
+import { CONFIG } from "./config.ts";
+
+// =============================================
+// OFFLINE SUPPORT
+// =============================================
+
+// The service worker (public/sw.js) caches the app and visited map tiles.
+// Paths are relative to the page so the app works under any base path.
+
+function resolveAppUrl(path: string): string {
+  return new URL(path, document.baseURI).href;
+}
+
+export function addWebManifest(): void {
+  const link = document.createElement("link");
+  link.rel = "manifest";
+  link.href = resolveAppUrl(CONFIG.OFFLINE.MANIFEST_URL);
+  document.head.append(link);
+}
+
+// Files loaded before the worker took control never passed through it, so
+// the page hands their URLs over to be cached
+function listLoadedAssets(): string[] {
+  const urls = performance.getEntriesByType("resource")
+    .map((entry) => entry.name)
+    .filter((url) => new URL(url).origin === globalThis.location.origin);
+  return [globalThis.location.href, ...urls];
+}
+
+export async function registerServiceWorker(): Promise<void> {
+  if (!("serviceWorker" in navigator)) {
+    console.warn("Service workers are not supported; offline play is off");
+    return;
+  }
+
+  try {
+    await navigator.serviceWorker.register(
+      resolveAppUrl(CONFIG.OFFLINE.SERVICE_WORKER_URL),
+    );
+    const registration = await navigator.serviceWorker.ready;
+    registration.active?.postMessage({
+      type: "cacheUrls",
+      urls: listLoadedAssets(),
+    });
+    console.log("Service worker ready for offline play");
+  } catch (error) {
+    console.warn("Service worker registration failed:", error);
+  }
+}
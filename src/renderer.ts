@@ -0,0 +1,576 @@
+// @deno-types="npm:@types/leaflet"
+import leaflet from "leaflet";
+import { CONFIG } from "./config.ts";
+import {
+  type CellAction,
+  type GameEngine,
+  type GameEvent,
+  hasToken,
+} from "./engine.ts";
+import { cellToKey, keyToCell } from "./grid.ts";
+import { combineTokens, describeToken, TOKEN_KINDS } from "./tokens.ts";
+import type {
+  CellCoordinates,
+  CellKey,
+  GridCell,
+  WorldCoordinates,
+} from "./types.ts";
+
+// =============================================
+// RENDER STYLES
+// =============================================
+
+interface CellStyle {
+  color: string;
+  fillColor: string;
+  weight: number;
+  fillOpacity: number;
+  dashArray: number[]; // Empty for a solid outline
+}
+
+// Outline and opacity for each cell state. The fill of a token cell comes
+// from its kind (see TOKEN_KINDS) so kinds stay distinct in every state.
+type StateStyle = Omit<CellStyle, "fillColor">;
+
+type CellState =
+  | "default"
+  | "inRange"
+  | "withToken"
+  | "holdingToken"
+  | "mergeTarget";
+
+export type CellThemeId = "standard" | "highContrast";
+
+// A theme styles each cell state and may prefix a cue to its tooltip, so
+// states can be told apart by outline pattern and symbol as well as color
+interface CellTheme {
+  states: Record<CellState, StateStyle>;
+  cues: Record<CellState, string>;
+}
+
+const CELL_THEMES: Record<CellThemeId, CellTheme> = {
+  standard: {
+    states: {
+      default: { color: "#3388ff", weight: 1, fillOpacity: 0.1, dashArray: [] },
+      inRange: { color: "#3388ff", weight: 1, fillOpacity: 0.1, dashArray: [] },
+      withToken: {
+        color: "#ff3388",
+        weight: 2,
+        fillOpacity: 0.3,
+        dashArray: [],
+      },
+      holdingToken: {
+        color: "#ffaa00",
+        weight: 3,
+        fillOpacity: 0.4,
+        dashArray: [],
+      },
+      mergeTarget: {
+        color: "#aa00ff",
+        weight: 4,
+        fillOpacity: 0.5,
+        dashArray: [],
+      },
+    },
+    cues: {
+      default: "",
+      inRange: "",
+      withToken: "",
+      holdingToken: "",
+      mergeTarget: "",
+    },
+  },
+  highContrast: {
+    states: {
+      default: { color: "#000000", weight: 1, fillOpacity: 0, dashArray: [] },
+      inRange: {
+        color: "#000000",
+        weight: 2,
+        fillOpacity: 0,
+        dashArray: [2, 4],
+      },
+      withToken: {
+        color: "#000000",
+        weight: 3,
+        fillOpacity: 0.7,
+        dashArray: [],
+      },
+      holdingToken: {
+        color: "#000000",
+        weight: 3,
+        fillOpacity: 0.7,
+        dashArray: [2, 4],
+      },
+      mergeTarget: {
+        color: "#000000",
+        weight: 5,
+        fillOpacity: 0.9,
+        dashArray: [10, 4],
+      },
+    },
+    cues: {
+      default: "",
+      inRange: "◌",
+      withToken: "●",
+      holdingToken: "↓",
+      mergeTarget: "⊕",
+    },
+  },
+};
+
+const OVERLAY_STYLES = {
+  interactionRange: {
+    color: "#33ff88",
+    weight: 3,
+    fillOpacity: 0.1,
+    interactive: false,
+  } as leaflet.PathOptions,
+  spawnRadius: {
+    color: "#666666",
+    weight: 2,
+    dashArray: "6 6",
+    fill: false,
+    interactive: false,
+  } as leaflet.PathOptions,
+  cursor: {
+    color: "#000000",
+    weight: 3,
+    dashArray: "4 4",
+    fill: false,
+    interactive: false,
+  } as leaflet.PathOptions,
+} as const;
+
+const PEER_MARKER_STYLE: leaflet.CircleMarkerOptions = {
+  radius: 8,
+  color: "#ffffff",
+  weight: 2,
+  fillColor: "#ff6600",
+  fillOpacity: 0.9,
+  interactive: false,
+};
+
+const FEEDBACK_STYLES: Record<CellAction, leaflet.PathOptions> = {
+  pickup: { color: "#00ff00", weight: 4 },
+  drop: { color: "#00ffff", weight: 4 },
+  merge: { color: "#aa00ff", weight: 5 },
+  invalid: { color: "#ff0000", weight: 4 },
+  outOfRange: { color: "#888888", weight: 4 },
+};
+
+interface CellRenderState {
+  style: CellStyle;
+  tooltip: string;
+  permanentTooltip: boolean;
+}
+
+interface CellView {
+  layer: leaflet.Polygon;
+  state: CellRenderState | null;
+}
+
+export interface RenderBenchmarkResult {
+  frames: number;
+  cells: number;
+  averageUpdateMs: number;
+  averageFrameMs: number;
+  worstFrameMs: number;
+}
+
+function isSameStyle(a: CellStyle, b: CellStyle): boolean {
+  return a.color === b.color && a.fillColor === b.fillColor &&
+    a.weight === b.weight && a.fillOpacity === b.fillOpacity &&
+    a.dashArray.join() === b.dashArray.join();
+}
+
+function toLatLngs(outline: WorldCoordinates[]): leaflet.LatLng[] {
+  return outline.map(({ lat, lng }) => leaflet.latLng(lat, lng));
+}
+
+// Moves an outline by whole turns of the globe so it sits within half a
+// turn of a longitude
+function wrapOutlineNear(
+  outline: WorldCoordinates[],
+  lng: number,
+): WorldCoordinates[] {
+  const shift = 360 * Math.round((lng - outline[0].lng) / 360);
+  if (shift === 0) return outline;
+  return outline.map((point) => ({ lat: point.lat, lng: point.lng + shift }));
+}
+
+// =============================================
+// LEAFLET RENDERER
+// =============================================
+
+// Draws the engine's cells and player on a Leaflet map. All state lives in
+// the engine; this class only reacts to its events. Each cell keeps one
+// canvas-drawn polygon for as long as it is active, and only its style and
+// tooltip are touched when what they show actually changes.
+export class LeafletRenderer {
+  private cellViews = new Map<CellKey, CellView>();
+  private cellLayerGroup = leaflet.layerGroup();
+  private cellCanvas = leaflet.canvas({ padding: 0.5 });
+  private playerMarker: leaflet.Marker;
+  private interactionRangeOverlay: leaflet.Polygon;
+  private spawnRadiusOverlay: leaflet.Polygon;
+  private cursorOverlay: leaflet.Polygon | null = null;
+  private peerMarkers = new Map<string, leaflet.CircleMarker>();
+  private themeId: CellThemeId = "standard";
+  private drawnNearLng: number; // See getCellOutline
+
+  constructor(
+    private map: leaflet.Map,
+    private engine: GameEngine,
+    private onCellClick: (cell: GridCell) => void = (cell) =>
+      engine.interact(cell),
+  ) {
+    this.cellLayerGroup.addTo(map);
+    this.drawnNearLng = engine.player.location.lng;
+
+    // The outline is a placeholder until updatePlayerOverlays runs
+    const playerOutline = this.getCellOutline({ i: 0, j: 0 });
+    // Tokens only spawn inside a fixed area in radius mode
+    const generation = engine.world.generation;
+    this.spawnRadiusOverlay = leaflet.polygon(
+      toLatLngs(
+        generation.grid.getRangeOutline(
+          generation.spawnCenter,
+          generation.ruleset.spawn.spawnRadius,
+        ),
+      ),
+      OVERLAY_STYLES.spawnRadius,
+    );
+    if (generation.ruleset.spawn.mode === "radius") {
+      this.spawnRadiusOverlay.addTo(map);
+    }
+    this.interactionRangeOverlay = leaflet.polygon(
+      playerOutline,
+      OVERLAY_STYLES.interactionRange,
+    ).addTo(map);
+
+    this.playerMarker = leaflet.marker(engine.player.location);
+    this.playerMarker.bindTooltip("Your location");
+    this.playerMarker.addTo(map);
+
+    engine.subscribe((event) => this.handleEvent(event));
+    map.on("moveend", () => this.handleMapMove());
+    this.updatePlayerOverlays();
+  }
+
+  private handleEvent(event: GameEvent): void {
+    switch (event.type) {
+      case "cellSpawned":
+        this.createCellView(event.cell);
+        break;
+      case "cellDespawned":
+        this.removeCellView(event.cell);
+        break;
+      case "cellChanged":
+        this.refreshCell(event.cell);
+        break;
+      case "cellInteraction":
+        this.provideVisualFeedback(event.cell, event.action);
+        break;
+      case "playerMoved":
+        if (Math.abs(event.location.lng - this.drawnNearLng) > 90) {
+          this.redrawCellOutlines();
+        }
+        this.updatePlayerOverlays();
+        this.map.setView(event.location, CONFIG.ZOOM_LEVEL);
+        this.refreshCells();
+        break;
+      case "inventoryChanged":
+        this.refreshCells();
+        break;
+    }
+  }
+
+  private handleMapMove(): void {
+    this.engine.updateVisibleCells(this.getVisibleCells());
+    this.refreshCells();
+  }
+
+  // The map's bounds keep running past ±180° when the view crosses the
+  // antimeridian; the grid wraps the cells there back
+  getVisibleCells(): CellCoordinates[] {
+    const bounds = this.map.getBounds();
+    return this.engine.world.grid.getCellsInBounds(
+      { southWest: bounds.getSouthWest(), northEast: bounds.getNorthEast() },
+      CONFIG.VIEWPORT_BUFFER,
+    );
+  }
+
+  // -------- Cells --------
+
+  private keyOf(cell: GridCell): CellKey {
+    return cellToKey(cell.coordinates.i, cell.coordinates.j);
+  }
+
+  private getCellState(cell: GridCell): CellState {
+    const isInRange = this.engine.isCellInteractable(cell);
+
+    if (this.engine.isMergeTarget(cell)) return "mergeTarget";
+    if (this.engine.isPlayerHoldingToken() && isInRange) return "holdingToken";
+    if (hasToken(cell)) return "withToken";
+    return isInRange ? "inRange" : "default";
+  }
+
+  private getCellStyle(cell: GridCell, state: CellState): CellStyle {
+    const theme = CELL_THEMES[this.themeId];
+    return {
+      ...theme.states[state],
+      fillColor: cell.token
+        ? TOKEN_KINDS[cell.token.kind].color
+        : theme.states.default.color,
+    };
+  }
+
+  private createTooltipContent(cell: GridCell): string {
+    const heldToken = this.engine.getActiveToken();
+    if (this.engine.isMergeTarget(cell) && heldToken && cell.token) {
+      const result = combineTokens(
+        this.engine.ruleset.recipes,
+        heldToken,
+        cell.token,
+      );
+      if (result) {
+        return `Merge: ${describeToken(heldToken)} + ` +
+          `${describeToken(cell.token)} = ${describeToken(result)}`;
+      }
+    }
+
+    if (hasToken(cell) && cell.token) {
+      return describeToken(cell.token);
+    }
+
+    return ``;
+  }
+
+  // Tooltips with a cue stay visible so the cue can be read without hovering
+  private getTooltipText(cell: GridCell, state: CellState): string {
+    const cue = CELL_THEMES[this.themeId].cues[state];
+    const content = this.createTooltipContent(cell);
+    return cue && content ? `${cue} ${content}` : cue || content;
+  }
+
+  private isTooltipPermanent(cell: GridCell, state: CellState): boolean {
+    return hasToken(cell) ||
+      (this.engine.isPlayerHoldingToken() &&
+        this.engine.isCellInteractable(cell)) ||
+      this.engine.isMergeTarget(cell) ||
+      CELL_THEMES[this.themeId].cues[state] !== "";
+  }
+
+  private getTooltipOptions(permanent: boolean): leaflet.TooltipOptions {
+    return {
+      permanent,
+      direction: "center",
+      className: permanent ? CONFIG.UI.TOOLTIP_CLASS : "",
+    };
+  }
+
+  private getCellRenderState(cell: GridCell): CellRenderState {
+    const state = this.getCellState(cell);
+    return {
+      style: this.getCellStyle(cell, state),
+      tooltip: this.getTooltipText(cell, state),
+      permanentTooltip: this.isTooltipPermanent(cell, state),
+    };
+  }
+
+  // Cells keep canonical columns, so one just past the antimeridian would
+  // be drawn on the far side of the map. Cells are drawn on the copy of the
+  // world nearest the player instead.
+  private getCellOutline(cell: CellCoordinates): leaflet.LatLng[] {
+    return toLatLngs(
+      wrapOutlineNear(
+        this.engine.world.grid.getCellOutline(cell),
+        this.drawnNearLng,
+      ),
+    );
+  }
+
+  // After a long jump, e.g. across the antimeridian
+  private redrawCellOutlines(): void {
+    this.drawnNearLng = this.engine.player.location.lng;
+    for (const [cellKey, view] of this.cellViews) {
+      view.layer.setLatLngs(this.getCellOutline(keyToCell(cellKey)));
+    }
+  }
+
+  private createCellView(cell: GridCell): void {
+    const outline = this.getCellOutline(cell.coordinates);
+    const polygon = leaflet.polygon(outline, {
+      ...CELL_THEMES[this.themeId].states.default,
+      renderer: this.cellCanvas,
+    });
+    polygon.on("click", () => this.onCellClick(cell));
+    polygon.addTo(this.cellLayerGroup);
+
+    this.cellViews.set(this.keyOf(cell), { layer: polygon, state: null });
+    this.refreshCell(cell);
+  }
+
+  private removeCellView(cell: GridCell): void {
+    const cellKey = this.keyOf(cell);
+    const view = this.cellViews.get(cellKey);
+    if (view) {
+      this.cellLayerGroup.removeLayer(view.layer);
+    }
+    this.cellViews.delete(cellKey);
+  }
+
+  // Applies only the parts of the cell's appearance that changed since the
+  // last refresh
+  private refreshCell(cell: GridCell): void {
+    const view = this.cellViews.get(this.keyOf(cell));
+    if (!view) return;
+
+    const next = this.getCellRenderState(cell);
+    const previous = view.state;
+
+    if (!previous || !isSameStyle(previous.style, next.style)) {
+      view.layer.setStyle(next.style);
+    }
+
+    // Leaflet cannot switch a bound tooltip between permanent and hover
+    if (!previous || previous.permanentTooltip !== next.permanentTooltip) {
+      view.layer.unbindTooltip();
+      view.layer.bindTooltip(
+        next.tooltip,
+        this.getTooltipOptions(next.permanentTooltip),
+      );
+    } else if (previous.tooltip !== next.tooltip) {
+      view.layer.setTooltipContent(next.tooltip);
+    }
+
+    view.state = next;
+  }
+
+  setTheme(themeId: CellThemeId): void {
+    this.themeId = themeId;
+    for (const view of this.cellViews.values()) view.state = null;
+    this.refreshCells();
+  }
+
+  refreshCells(): void {
+    for (const cell of this.engine.world.getActiveCells()) {
+      this.refreshCell(cell);
+    }
+  }
+
+  private provideVisualFeedback(cell: GridCell, action: CellAction): void {
+    const view = this.cellViews.get(this.keyOf(cell));
+    if (!view) return;
+
+    view.layer.setStyle(FEEDBACK_STYLES[action]);
+    setTimeout(() => {
+      if (view.state) view.layer.setStyle(view.state.style);
+    }, CONFIG.UI.HIGHLIGHT_DURATION_MS);
+  }
+
+  // -------- Benchmark --------
+
+  // Stretches the map over the whole window and redraws every cell from
+  // scratch once per animation frame, reporting how long the frames took
+  benchmark(frames = 60): Promise<RenderBenchmarkResult> {
+    const container = this.map.getContainer();
+    const previousCssText = container.style.cssText;
+    container.style.cssText =
+      "position: fixed; inset: 0; width: 100vw; height: 100vh; z-index: 1000;";
+    this.map.invalidateSize();
+    this.engine.updateVisibleCells(this.getVisibleCells());
+
+    const updateTimes: number[] = [];
+    const frameTimes: number[] = [];
+
+    return new Promise((resolve) => {
+      let lastFrame = performance.now();
+
+      const step = (now: number) => {
+        frameTimes.push(now - lastFrame);
+        lastFrame = now;
+
+        if (updateTimes.length < frames) {
+          const start = performance.now();
+          for (const view of this.cellViews.values()) view.state = null;
+          this.refreshCells();
+          updateTimes.push(performance.now() - start);
+          requestAnimationFrame(step);
+          return;
+        }
+
+        const cells = this.cellViews.size;
+        container.style.cssText = previousCssText;
+        this.map.invalidateSize();
+        this.engine.updateVisibleCells(this.getVisibleCells());
+
+        // The first interval measures the wait for the first frame
+        const measured = frameTimes.slice(1);
+        const average = (times: number[]) =>
+          times.reduce((sum, time) => sum + time, 0) / times.length;
+        resolve({
+          frames,
+          cells,
+          averageUpdateMs: average(updateTimes),
+          averageFrameMs: average(measured),
+          worstFrameMs: Math.max(...measured),
+        });
+      };
+
+      requestAnimationFrame(step);
+    });
+  }
+
+  // -------- Player --------
+
+  // Outlines the cell selected with the keyboard or gamepad cursor
+  setCursor(cell: CellCoordinates | null): void {
+    if (!cell) {
+      this.cursorOverlay?.remove();
+      this.cursorOverlay = null;
+      return;
+    }
+
+    const outline = this.getCellOutline(cell);
+    if (this.cursorOverlay) {
+      this.cursorOverlay.setLatLngs(outline);
+    } else {
+      this.cursorOverlay = leaflet.polygon(outline, OVERLAY_STYLES.cursor)
+        .addTo(this.map);
+    }
+  }
+
+  // Other players joined through sync; they are only drawn, never simulated
+  showPeer(playerId: string, location: WorldCoordinates): void {
+    const marker = this.peerMarkers.get(playerId);
+    if (marker) {
+      marker.setLatLng(location);
+      return;
+    }
+
+    const peerMarker = leaflet.circleMarker(location, PEER_MARKER_STYLE);
+    peerMarker.bindTooltip(`Player ${playerId}`);
+    peerMarker.addTo(this.map);
+    this.peerMarkers.set(playerId, peerMarker);
+  }
+
+  removePeer(playerId: string): void {
+    this.peerMarkers.get(playerId)?.remove();
+    this.peerMarkers.delete(playerId);
+  }
+
+  private updatePlayerOverlays(): void {
+    const playerCell = this.engine.getPlayerCell();
+
+    this.playerMarker.setLatLng(this.engine.player.location);
+    this.interactionRangeOverlay.setLatLngs(
+      toLatLngs(
+        this.engine.world.grid.getRangeOutline(
+          playerCell,
+          this.engine.ruleset.interactionRange,
+        ),
+      ),
+    );
+  }
+}
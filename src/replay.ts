@@ -0,0 +1,461 @@
+import { CONFIG } from "./config.ts";
+import { GameEngine, GameWorld } from "./engine.ts";
+import { findGridProjection } from "./grid.ts";
+import type { CellMemento } from "./memento.ts";
+import type { ModeSession } from "./modes.ts";
+import { type Direction, stepLocation } from "./movement.ts";
+import { findRuleset } from "./rulesets.ts";
+import {
+  applySaveDocument,
+  checkCellMemento,
+  createProgress,
+  createSaveDocument,
+  parseSaveDocument,
+  type SaveDocument,
+} from "./save.ts";
+import { describeToken, isToken } from "./tokens.ts";
+import type {
+  CellCoordinates,
+  PlayerState,
+  Token,
+  WorldCoordinates,
+} from "./types.ts";
+import { getSpawnCenter } from "./worldgen.ts";
+import { advanceCellState } from "./worldtime.ts";
+
+// =============================================
+// REPLAY RECORDINGS
+// =============================================
+
+// Untouched cells are a pure function of the seed, so a session is fully
+// described by the state it started from and the player's inputs in order,
+// along with the cells other players changed while it was recorded.
+export const REPLAY_FORMAT_VERSION = 1;
+
+export type ReplayStep =
+  | { type: "move"; direction: Direction }
+  | { type: "moveTo"; location: WorldCoordinates } // Device location updates
+  | { type: "interact"; cell: CellCoordinates }
+  | { type: "selectSlot"; slot: number }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "reset" }
+  | { type: "tick"; now: number } // World time, see GameWorld.advanceTime
+  | { type: "cells"; mementos: CellMemento[] }; // Received from other players
+
+// What a finished replay has to reproduce. Memento timestamps are ignored.
+export interface ReplayOutcome {
+  points: number;
+  cells: CellMemento[];
+}
+
+export interface ReplayRecording {
+  version: typeof REPLAY_FORMAT_VERSION;
+  recordedAt: number;
+  start: SaveDocument;
+  steps: ReplayStep[];
+  outcome: ReplayOutcome;
+}
+
+const DIRECTIONS: Direction[] = ["north", "south", "east", "west", "center"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function checkStep(errors: string[], field: string, step: unknown): void {
+  if (!isRecord(step)) {
+    errors.push(`${field} must be an object`);
+    return;
+  }
+
+  switch (step.type) {
+    case "move":
+      if (!DIRECTIONS.includes(step.direction as Direction)) {
+        errors.push(`${field}.direction must be one of ${DIRECTIONS}`);
+      }
+      break;
+    case "moveTo":
+      if (
+        !isRecord(step.location) || !isFiniteNumber(step.location.lat) ||
+        !isFiniteNumber(step.location.lng)
+      ) {
+        errors.push(`${field}.location must hold a lat and lng`);
+      }
+      break;
+    case "interact":
+      if (
+        !isRecord(step.cell) || !Number.isInteger(step.cell.i) ||
+        !Number.isInteger(step.cell.j)
+      ) {
+        errors.push(`${field}.cell must hold integer i and j`);
+      }
+      break;
+    case "selectSlot":
+      if (!Number.isInteger(step.slot) || (step.slot as number) < 0) {
+        errors.push(`${field}.slot must be a non-negative integer`);
+      }
+      break;
+    case "undo":
+    case "redo":
+    case "reset":
+      break;
+    case "tick":
+      if (!isFiniteNumber(step.now)) {
+        errors.push(`${field}.now must be a timestamp`);
+      }
+      break;
+    case "cells":
+      if (!Array.isArray(step.mementos)) {
+        errors.push(`${field}.mementos must be an array`);
+        break;
+      }
+      step.mementos.forEach((memento, index) =>
+        checkCellMemento(errors, `${field}.mementos[${index}]`, memento)
+      );
+      break;
+    default:
+      errors.push(`${field}.type ${String(step.type)} is not a replay step`);
+  }
+}
+
+function checkOutcome(errors: string[], outcome: unknown): void {
+  if (!isRecord(outcome)) {
+    errors.push("outcome must be an object");
+    return;
+  }
+  if (!isFiniteNumber(outcome.points)) {
+    errors.push("outcome.points must be a number");
+  }
+  if (!Array.isArray(outcome.cells)) {
+    errors.push("outcome.cells must be an array");
+    return;
+  }
+  outcome.cells.forEach((cell, index) => {
+    if (
+      !isRecord(cell) || typeof cell.cellKey !== "string" ||
+      (cell.token !== null && !isToken(cell.token))
+    ) {
+      errors.push(`outcome.cells[${index}] must be a cell memento`);
+    }
+  });
+}
+
+export type ReplayParseResult =
+  | { ok: true; recording: ReplayRecording }
+  | { ok: false; errors: string[] };
+
+// The starting save goes through the save migrations, so recordings made
+// before a save format change keep working
+export function parseReplayRecording(raw: unknown): ReplayParseResult {
+  if (!isRecord(raw)) {
+    return { ok: false, errors: ["replay must be an object"] };
+  }
+
+  const errors: string[] = [];
+  if (raw.version !== REPLAY_FORMAT_VERSION) {
+    errors.push(`version must be ${REPLAY_FORMAT_VERSION}`);
+  }
+
+  const start = parseSaveDocument(raw.start);
+  if (!start.ok) {
+    errors.push(...start.errors.map((error) => `start: ${error}`));
+  }
+
+  if (!Array.isArray(raw.steps)) {
+    errors.push("steps must be an array");
+  } else {
+    raw.steps.forEach((step, index) =>
+      checkStep(errors, `steps[${index}]`, step)
+    );
+  }
+  checkOutcome(errors, raw.outcome);
+
+  if (errors.length > 0 || !start.ok) return { ok: false, errors };
+  return {
+    ok: true,
+    recording: {
+      ...(raw as unknown as ReplayRecording),
+      start: start.save,
+    },
+  };
+}
+
+export function storeReplayRecording(recording: ReplayRecording): boolean {
+  try {
+    localStorage.setItem(CONFIG.REPLAY.STORAGE_KEY, JSON.stringify(recording));
+    return true;
+  } catch (error) {
+    console.warn("Failed to store replay:", error);
+    return false;
+  }
+}
+
+export function readReplayRecording(): ReplayRecording | null {
+  let raw: unknown;
+  try {
+    const stored = localStorage.getItem(CONFIG.REPLAY.STORAGE_KEY);
+    if (stored === null) return null;
+    raw = JSON.parse(stored);
+  } catch (error) {
+    console.warn("Failed to read replay:", error);
+    return null;
+  }
+
+  const result = parseReplayRecording(raw);
+  if (!result.ok) {
+    console.warn(`Ignoring invalid replay: ${result.errors.join("; ")}`);
+    return null;
+  }
+  return result.recording;
+}
+
+// =============================================
+// RECORDING
+// =============================================
+
+// Cells put back to their generated token are left out: whether their
+// memento was dropped yet depends on what the player happened to walk past.
+// Saved states are brought up to world time first for the same reason, as
+// only cells back in play have caught up on their own.
+export function captureOutcome(engine: GameEngine): ReplayOutcome {
+  const { world } = engine;
+  const cells = Array.from(world.caretaker.getAllStates().values())
+    .map((memento) =>
+      advanceCellState(memento, world.getTime(), world.generation)
+    )
+    .filter((memento): memento is CellMemento =>
+      memento !== null && !world.isGeneratedState(memento)
+    )
+    .sort((a, b) => a.cellKey.localeCompare(b.cellKey));
+  return { points: engine.player.points, cells };
+}
+
+// Captures the current game as the starting point, then logs each input
+// passed to record(). The undo history is cleared so that a replay's first
+// undo has nothing older to reach for, and world time is brought up to the
+// moment saved with the starting point, where replays start their clock.
+export class ReplayRecorder {
+  private steps: ReplayStep[] = [];
+  private start: SaveDocument;
+
+  constructor(private engine: GameEngine, mode: ModeSession) {
+    engine.clearHistory();
+    this.start = createSaveDocument(
+      engine.world,
+      engine.player,
+      createProgress(),
+      mode,
+    );
+    engine.advanceWorldTime(this.start.savedAt);
+  }
+
+  get stepCount(): number {
+    return this.steps.length;
+  }
+
+  record(step: ReplayStep): void {
+    this.steps.push(structuredClone(step));
+  }
+
+  finish(): ReplayRecording {
+    return {
+      version: REPLAY_FORMAT_VERSION,
+      recordedAt: Date.now(),
+      start: this.start,
+      steps: [...this.steps],
+      outcome: captureOutcome(this.engine),
+    };
+  }
+}
+
+// =============================================
+// PLAYBACK
+// =============================================
+
+export function applyReplayStep(engine: GameEngine, step: ReplayStep): void {
+  switch (step.type) {
+    case "move":
+      engine.movePlayer(
+        stepLocation(engine.world.grid, engine.player.location, step.direction),
+      );
+      break;
+    case "moveTo":
+      engine.movePlayer(step.location);
+      break;
+    case "interact":
+      engine.interact(engine.activateCell(step.cell.i, step.cell.j));
+      break;
+    case "selectSlot":
+      engine.selectSlot(step.slot);
+      break;
+    case "undo":
+      engine.undo();
+      break;
+    case "redo":
+      engine.redo();
+      break;
+    case "reset":
+      engine.resetModifiedCells();
+      break;
+    case "tick":
+      engine.advanceWorldTime(step.now);
+      break;
+    case "cells":
+      for (const memento of step.mementos) engine.applyCellMemento(memento);
+      break;
+  }
+}
+
+function describeCell(token: Token | null | undefined): string {
+  if (token === undefined) return "unmodified";
+  return token ? describeToken(token) : "empty";
+}
+
+// Lists every difference between two outcomes; an empty list means they match
+export function compareOutcomes(
+  expected: ReplayOutcome,
+  actual: ReplayOutcome,
+): string[] {
+  const mismatches: string[] = [];
+  if (expected.points !== actual.points) {
+    mismatches.push(
+      `points: expected ${expected.points}, got ${actual.points}`,
+    );
+  }
+
+  const expectedCells = new Map(
+    expected.cells.map((cell) => [cell.cellKey, cell.token]),
+  );
+  const actualCells = new Map(
+    actual.cells.map((cell) => [cell.cellKey, cell.token]),
+  );
+  const keys = new Set([...expectedCells.keys(), ...actualCells.keys()]);
+  for (const key of [...keys].sort()) {
+    const want = describeCell(expectedCells.get(key));
+    const got = describeCell(actualCells.get(key));
+    if (want !== got) {
+      mismatches.push(`cell ${key}: expected ${want}, got ${got}`);
+    }
+  }
+  return mismatches;
+}
+
+// A fresh engine in the recording's world and starting state
+export function createReplayEngine(recording: ReplayRecording): GameEngine {
+  // The world was checked when the recording was parsed
+  const { seed, rulesetId, gridId } = recording.start.world;
+  const grid = findGridProjection(gridId)!;
+  const world = new GameWorld(
+    {
+      seed,
+      ruleset: findRuleset(rulesetId)!,
+      grid,
+      spawnCenter: getSpawnCenter(grid),
+    },
+    undefined,
+    undefined,
+    recording.start.savedAt,
+  );
+  const player: PlayerState = {
+    inventory: [],
+    activeSlot: 0,
+    location: { ...CONFIG.CLASSROOM_LOCATION },
+    points: 0,
+  };
+  applySaveDocument(recording.start, world, player);
+  return new GameEngine(world, player);
+}
+
+// Runs a whole recording without rendering and returns the mismatches.
+// Rerunning saved recordings after a rule change shows what it affected.
+export function verifyReplay(recording: ReplayRecording): string[] {
+  const engine = createReplayEngine(recording);
+  for (const step of recording.steps) {
+    applyReplayStep(engine, step);
+  }
+  return compareOutcomes(recording.outcome, captureOutcome(engine));
+}
+
+// Steps through a recording on a live engine, one step per interval
+export class ReplayPlayer {
+  private cursor = 0;
+  private speed = 1;
+  private playing = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private recording: ReplayRecording,
+    private engine: GameEngine,
+    private onUpdate: (player: ReplayPlayer) => void,
+  ) {}
+
+  get position(): number {
+    return this.cursor;
+  }
+
+  get length(): number {
+    return this.recording.steps.length;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  isFinished(): boolean {
+    return this.cursor >= this.length;
+  }
+
+  // Applies the next step; returns false once the recording is over
+  step(): boolean {
+    if (this.isFinished()) return false;
+
+    applyReplayStep(this.engine, this.recording.steps[this.cursor++]);
+    this.onUpdate(this);
+    return true;
+  }
+
+  play(): void {
+    if (this.playing || this.isFinished()) return;
+
+    this.playing = true;
+    this.schedule();
+    this.onUpdate(this);
+  }
+
+  pause(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+    this.playing = false;
+    this.onUpdate(this);
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = speed;
+  }
+
+  verify(): string[] {
+    return compareOutcomes(
+      this.recording.outcome,
+      captureOutcome(this.engine),
+    );
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(
+      this.tick,
+      CONFIG.REPLAY.STEP_INTERVAL_MS / this.speed,
+    );
+  }
+
+  private tick = (): void => {
+    this.timer = null;
+    if (this.cursor + 1 >= this.length) this.playing = false;
+    this.step();
+    if (this.playing) this.schedule();
+  };
+}
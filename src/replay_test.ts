@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { CONFIG } from "./config.ts";
+import { GameEngine, GameWorld } from "./engine.ts";
+import { cellToKey, findGridProjection } from "./grid.ts";
+import { createModeSession } from "./modes.ts";
+import {
+  captureOutcome,
+  parseReplayRecording,
+  ReplayRecorder,
+  verifyReplay,
+} from "./replay.ts";
+import { findRuleset } from "./rulesets.ts";
+import { getWorldId, SyncSession } from "./sync.ts";
+import type { SyncTransport } from "./transport.ts";
+import type { GridCell, PlayerState, Token } from "./types.ts";
+import { getSpawnCenter } from "./worldgen.ts";
+
+const HOUR_MS = 60 * 60 * 1000;
+const grid = findGridProjection("latLng")!;
+
+function createEngine(): GameEngine {
+  const ruleset = findRuleset("classic")!;
+  const world = new GameWorld({
+    seed: "replay-test",
+    ruleset,
+    grid,
+    spawnCenter: getSpawnCenter(grid),
+  });
+  const player: PlayerState = {
+    inventory: new Array<Token | null>(ruleset.inventorySlots).fill(null),
+    activeSlot: 0,
+    location: { ...CONFIG.CLASSROOM_LOCATION },
+    points: 0,
+  };
+  return new GameEngine(world, player);
+}
+
+// The nearest cell in reach that spawned with a token
+function findTokenCell(engine: GameEngine): GridCell {
+  for (
+    const { i, j } of grid.getCellsInRadius(
+      engine.getPlayerCell(),
+      engine.ruleset.interactionRange,
+    )
+  ) {
+    const cell = engine.activateCell(i, j);
+    if (cell.token) return cell;
+  }
+  throw new Error("No token in reach");
+}
+
+Deno.test("a cell that respawned out of sight matches its replay", () => {
+  const engine = createEngine();
+  const recorder = new ReplayRecorder(
+    engine,
+    createModeSession("freePlay", Date.now()),
+  );
+
+  const cell = findTokenCell(engine);
+  assert.equal(engine.interact(cell), "pickup");
+  recorder.record({ type: "interact", cell: cell.coordinates });
+
+  // Walked out of sight, so the recording only keeps the emptied memento,
+  // while the replay never despawns the cell and sees it respawn
+  engine.updateVisibleCells([]);
+  const now = engine.world.getTime() + 2 * HOUR_MS;
+  engine.advanceWorldTime(now);
+  recorder.record({ type: "tick", now });
+
+  const recording = recorder.finish();
+  const { i, j } = cell.coordinates;
+  assert.ok(
+    !recording.outcome.cells.some((memento) =>
+      memento.cellKey === cellToKey(i, j)
+    ),
+  );
+  assert.deepStrictEqual(recording.outcome, captureOutcome(engine));
+  assert.deepStrictEqual(verifyReplay(recording), []);
+});
+
+// Delivers whatever the test passes to receive() as if a peer had sent it
+class FakeTransport implements SyncTransport {
+  readonly label = "Test";
+  private listeners = new Set<(message: unknown) => void>();
+
+  send(): void {}
+
+  subscribe(listener: (message: unknown) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  close(): void {}
+
+  receive(message: unknown): void {
+    for (const listener of this.listeners) listener(message);
+  }
+}
+
+Deno.test("cells received from other players are replayed", () => {
+  const engine = createEngine();
+  const transport = new FakeTransport();
+  const world = getWorldId("replay-test", "classic", grid.id);
+  const session = new SyncSession(engine, [transport], {
+    playerId: "local",
+    world,
+    heartbeatMs: HOUR_MS,
+    peerTimeoutMs: HOUR_MS,
+  });
+  const recorder = new ReplayRecorder(
+    engine,
+    createModeSession("freePlay", Date.now()),
+  );
+  session.subscribe((event) => {
+    if (event.type !== "cellsReceived") return;
+    recorder.record({
+      type: "cells",
+      mementos: event.cellKeys.map((cellKey) =>
+        engine.world.caretaker.getState(cellKey)!
+      ),
+    });
+  });
+  session.start();
+
+  const cell = findTokenCell(engine);
+  const { i, j } = cell.coordinates;
+  const memento = {
+    cellKey: cellToKey(i, j),
+    token: { kind: "bit", value: 64 },
+    timestamp: engine.world.getTime(),
+  };
+  transport.receive({
+    type: "cells",
+    world,
+    playerId: "peer",
+    cells: [{ memento, playerId: "peer" }],
+  });
+  session.stop();
+  assert.deepStrictEqual(cell.token, memento.token);
+
+  const result = parseReplayRecording(
+    JSON.parse(JSON.stringify(recorder.finish())),
+  );
+  assert.ok(result.ok);
+  assert.deepStrictEqual(result.recording.steps, [
+    { type: "cells", mementos: [memento] },
+  ]);
+  assert.deepStrictEqual(verifyReplay(result.recording), []);
+});
@@ -0,0 +1,316 @@
+import {
+  isTokenKind,
+  type MergeRecipe,
+  sameKindRecipes,
+  TOKEN_KINDS,
+} from "./tokens.ts";
+import type { TokenKind } from "./types.ts";
+
+// =============================================
+// RULESETS
+// =============================================
+
+// "everywhere" fills the whole world; "radius" only fills cells within
+// spawnRadius of the world's fixed spawn center
+export type SpawnMode = "everywhere" | "radius";
+
+export interface Ruleset {
+  id: string;
+  name: string;
+  victoryThreshold: number;
+  interactionRange: number; // In cells, Chebyshev distance
+  inventorySlots: number;
+  mergeScoreMultiplier: number; // Points per merge = new value * multiplier
+  recipes: MergeRecipe[]; // Checked in order; see findRecipe
+  spawn: {
+    mode: SpawnMode;
+    probability: number;
+    valueDistribution: Record<number, number>; // Token value -> chance
+    kindDistribution: Partial<Record<TokenKind, number>>; // Kind -> chance
+    spawnRadius: number;
+  };
+  // How cells left alone change over time; a delay of 0 turns that change
+  // off. See advanceCellState.
+  worldTime: {
+    respawnAfterMs: number; // Until an emptied cell regrows its token
+    decayFromValue: number; // Tokens on the ground worth this much decay
+    decayAfterMs: number; // Until such a token loses half its value
+  };
+}
+
+const DISTRIBUTION_TOLERANCE = 1e-6;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function checkInteger(
+  errors: string[],
+  field: string,
+  value: unknown,
+  min: number,
+): void {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+    errors.push(`${field} must be an integer of at least ${min}`);
+  }
+}
+
+function checkDistribution(
+  errors: string[],
+  field: string,
+  value: unknown,
+  isKey: (key: string) => boolean,
+  keyRule: string,
+): void {
+  if (!isRecord(value) || Object.keys(value).length === 0) {
+    errors.push(`${field} must be a non-empty object`);
+    return;
+  }
+
+  let total = 0;
+  for (const [key, chance] of Object.entries(value)) {
+    if (!isKey(key)) errors.push(`${field} key ${key} must be ${keyRule}`);
+    checkNumber(errors, `${field}[${key}]`, chance, 0, 1);
+    if (typeof chance === "number") total += chance;
+  }
+  if (Math.abs(total - 1) > DISTRIBUTION_TOLERANCE) {
+    errors.push(`${field} chances must add up to 1`);
+  }
+}
+
+function checkRecipe(errors: string[], field: string, value: unknown): void {
+  if (!isRecord(value)) {
+    errors.push(`${field} must be an object`);
+    return;
+  }
+
+  const ingredients = value.ingredients;
+  if (!Array.isArray(ingredients) || ingredients.length !== 2) {
+    errors.push(`${field}.ingredients must hold exactly two patterns`);
+  } else {
+    ingredients.forEach((pattern, index) => {
+      const patternField = `${field}.ingredients[${index}]`;
+      if (!isRecord(pattern) || !isTokenKind(pattern.kind)) {
+        errors.push(`${patternField}.kind must be a known token kind`);
+      } else if (pattern.value !== undefined) {
+        checkInteger(errors, `${patternField}.value`, pattern.value, 1);
+      }
+    });
+  }
+  if (typeof value.sameValue !== "boolean") {
+    errors.push(`${field}.sameValue must be a boolean`);
+  }
+  if (!isTokenKind(value.produces)) {
+    errors.push(`${field}.produces must be a known token kind`);
+  }
+}
+
+function checkNumber(
+  errors: string[],
+  field: string,
+  value: unknown,
+  min: number,
+  max = Infinity,
+): void {
+  if (
+    typeof value !== "number" || !Number.isFinite(value) || value < min ||
+    value > max
+  ) {
+    errors.push(`${field} must be a number between ${min} and ${max}`);
+  }
+}
+
+// Returns one message per schema violation; an empty list means valid
+export function validateRuleset(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!isRecord(value)) return ["ruleset must be an object"];
+
+  if (typeof value.id !== "string" || !/^[a-z0-9-]+$/.test(value.id)) {
+    errors.push("id must be a lowercase slug");
+  }
+  if (typeof value.name !== "string" || value.name.trim() === "") {
+    errors.push("name must be a non-empty string");
+  }
+  checkInteger(errors, "victoryThreshold", value.victoryThreshold, 2);
+  checkInteger(errors, "interactionRange", value.interactionRange, 0);
+  checkInteger(errors, "inventorySlots", value.inventorySlots, 1);
+  checkNumber(errors, "mergeScoreMultiplier", value.mergeScoreMultiplier, 0);
+
+  if (!Array.isArray(value.recipes) || value.recipes.length === 0) {
+    errors.push("recipes must be a non-empty array");
+  } else {
+    value.recipes.forEach((recipe, index) =>
+      checkRecipe(errors, `recipes[${index}]`, recipe)
+    );
+  }
+
+  const worldTime = value.worldTime;
+  if (isRecord(worldTime)) {
+    checkNumber(
+      errors,
+      "worldTime.respawnAfterMs",
+      worldTime.respawnAfterMs,
+      0,
+    );
+    checkInteger(
+      errors,
+      "worldTime.decayFromValue",
+      worldTime.decayFromValue,
+      2,
+    );
+    checkNumber(errors, "worldTime.decayAfterMs", worldTime.decayAfterMs, 0);
+  } else {
+    errors.push("worldTime must be an object");
+  }
+
+  const spawn = value.spawn;
+  if (!isRecord(spawn)) {
+    errors.push("spawn must be an object");
+    return errors;
+  }
+  if (spawn.mode !== "everywhere" && spawn.mode !== "radius") {
+    errors.push('spawn.mode must be "everywhere" or "radius"');
+  }
+  checkNumber(errors, "spawn.probability", spawn.probability, 0, 1);
+  checkInteger(errors, "spawn.spawnRadius", spawn.spawnRadius, 0);
+
+  checkDistribution(
+    errors,
+    "spawn.valueDistribution",
+    spawn.valueDistribution,
+    (key) => Number.isInteger(Number(key)) && Number(key) >= 1,
+    "a positive integer",
+  );
+  checkDistribution(
+    errors,
+    "spawn.kindDistribution",
+    spawn.kindDistribution,
+    (key) => Object.hasOwn(TOKEN_KINDS, key),
+    "a known token kind",
+  );
+
+  return errors;
+}
+
+export function defineRuleset(ruleset: Ruleset): Ruleset {
+  const errors = validateRuleset(ruleset);
+  if (errors.length > 0) {
+    throw new Error(`Invalid ruleset "${ruleset.id}": ${errors.join("; ")}`);
+  }
+  return Object.freeze(ruleset);
+}
+
+export const RULESETS: readonly Ruleset[] = [
+  defineRuleset({
+    id: "classic",
+    name: "Classic",
+    victoryThreshold: 2048,
+    interactionRange: 3,
+    inventorySlots: 4,
+    mergeScoreMultiplier: 1,
+    recipes: sameKindRecipes("bit"),
+    spawn: {
+      mode: "everywhere",
+      probability: 0.15,
+      valueDistribution: { 1: 0.6, 2: 0.3, 4: 0.1 },
+      kindDistribution: { bit: 1 },
+      spawnRadius: 8,
+    },
+    worldTime: {
+      respawnAfterMs: 30 * MINUTE_MS,
+      decayFromValue: 64,
+      decayAfterMs: 2 * HOUR_MS,
+    },
+  }),
+  defineRuleset({
+    id: "hard",
+    name: "Hard",
+    victoryThreshold: 4096,
+    interactionRange: 2,
+    inventorySlots: 2,
+    mergeScoreMultiplier: 2,
+    recipes: sameKindRecipes("bit"),
+    spawn: {
+      mode: "everywhere",
+      probability: 0.08,
+      valueDistribution: { 1: 0.8, 2: 0.2 },
+      kindDistribution: { bit: 1 },
+      spawnRadius: 6,
+    },
+    worldTime: {
+      respawnAfterMs: 2 * HOUR_MS,
+      decayFromValue: 32,
+      decayAfterMs: HOUR_MS,
+    },
+  }),
+  defineRuleset({
+    id: "sandbox",
+    name: "Sandbox",
+    victoryThreshold: 256,
+    interactionRange: 6,
+    inventorySlots: 8,
+    mergeScoreMultiplier: 1,
+    recipes: sameKindRecipes("bit"),
+    spawn: {
+      mode: "everywhere",
+      probability: 0.4,
+      valueDistribution: { 1: 0.4, 2: 0.3, 4: 0.2, 8: 0.1 },
+      kindDistribution: { bit: 1 },
+      spawnRadius: 12,
+    },
+    // Nothing is ever lost in the sandbox
+    worldTime: {
+      respawnAfterMs: 5 * MINUTE_MS,
+      decayFromValue: 2,
+      decayAfterMs: 0,
+    },
+  }),
+  // Elements only combine with themselves or through the cross-kind recipes
+  defineRuleset({
+    id: "elements",
+    name: "Elements",
+    victoryThreshold: 1024,
+    interactionRange: 3,
+    inventorySlots: 6,
+    mergeScoreMultiplier: 1,
+    recipes: [
+      {
+        ingredients: [{ kind: "fire", value: 1 }, { kind: "air", value: 1 }],
+        sameValue: true,
+        produces: "fire",
+      },
+      {
+        ingredients: [{ kind: "fire" }, { kind: "water" }],
+        sameValue: true,
+        produces: "air",
+      },
+      {
+        ingredients: [{ kind: "earth" }, { kind: "water" }],
+        sameValue: true,
+        produces: "earth",
+      },
+      ...sameKindRecipes("fire", "water", "earth", "air"),
+    ],
+    spawn: {
+      mode: "everywhere",
+      probability: 0.2,
+      valueDistribution: { 1: 0.6, 2: 0.3, 4: 0.1 },
+      kindDistribution: { fire: 0.25, water: 0.25, earth: 0.25, air: 0.25 },
+      spawnRadius: 8,
+    },
+    worldTime: {
+      respawnAfterMs: 30 * MINUTE_MS,
+      decayFromValue: 64,
+      decayAfterMs: 2 * HOUR_MS,
+    },
+  }),
+];
+
+export const DEFAULT_RULESET_ID = "classic";
+
+export function findRuleset(id: string | null): Ruleset | null {
+  return RULESETS.find((ruleset) => ruleset.id === id) ?? null;
+}
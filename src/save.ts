@@ -0,0 +1,570 @@
+import {
+  type UnlockedAchievements,
+  validateUnlockedAchievements,
+} from "./achievements.ts";
+import { CONFIG } from "./config.ts";
+import type { GameWorld } from "./engine.ts";
+import { DEFAULT_GRID_ID, findGridProjection } from "./grid.ts";
+import type { CellMemento, ChunkStore } from "./memento.ts";
+import {
+  createModeSession,
+  DEFAULT_MODE_ID,
+  type ModeSession,
+  validateModeSession,
+} from "./modes.ts";
+import { findRuleset } from "./rulesets.ts";
+import {
+  createStatistics,
+  type GameStatistics,
+  validateStatistics,
+} from "./stats.ts";
+import { isToken } from "./tokens.ts";
+import type { ChunkKey, PlayerState } from "./types.ts";
+
+// =============================================
+// SAVE / LOAD
+// =============================================
+
+// Bump this whenever the save layout changes and register a migration from
+// the previous version in SAVE_MIGRATIONS.
+export const SAVE_FORMAT_VERSION = 8;
+
+// Save files carry their cells inline. The browser's save slot keeps them
+// in per-chunk entries instead (see LocalStorageChunkStore) and leaves
+// `cells` empty.
+export type CellStorage = "inline" | "chunks";
+
+export interface SaveDocument {
+  version: typeof SAVE_FORMAT_VERSION;
+  savedAt: number;
+  world: {
+    seed: string;
+    rulesetId: string;
+    gridId: string; // Cell keys only mean something on their own grid
+  };
+  cellStorage: CellStorage;
+  cells: CellMemento[];
+  player: PlayerState;
+  progress: PlayerProgress;
+  mode: ModeSession;
+}
+
+// Statistics and achievements travel with the save they were earned in
+export interface PlayerProgress {
+  stats: GameStatistics;
+  achievements: UnlockedAchievements;
+}
+
+export function createProgress(): PlayerProgress {
+  return { stats: createStatistics(), achievements: {} };
+}
+
+type RawSave = Record<string, unknown> & { version: number };
+
+// Each entry upgrades a save from the keyed version to the next one
+const SAVE_MIGRATIONS: Record<number, (save: RawSave) => RawSave> = {
+  // v2: the single held token became a list of inventory slots
+  1: (save) => {
+    const player = isRecord(save.player) ? save.player : {};
+    return {
+      ...save,
+      version: 2,
+      player: {
+        ...player,
+        inventory: [player.inventory ?? null],
+        activeSlot: 0,
+      },
+    };
+  },
+  // v3: saves record the world they belong to. Older games were all played
+  // on the unseeded classic world.
+  2: (save) => ({
+    ...save,
+    version: 3,
+    world: { seed: "", rulesetId: "classic" },
+  }),
+  // v4: tokens carry a kind. Every older token was a plain bit.
+  3: (save) => {
+    const player = isRecord(save.player) ? save.player : {};
+    return {
+      ...save,
+      version: 4,
+      cells: Array.isArray(save.cells)
+        ? save.cells.map((cell) =>
+          isRecord(cell) ? { ...cell, token: withBitKind(cell.token) } : cell
+        )
+        : save.cells,
+      player: {
+        ...player,
+        inventory: Array.isArray(player.inventory)
+          ? player.inventory.map(withBitKind)
+          : player.inventory,
+      },
+    };
+  },
+  // v5: statistics and achievements. Nothing was tracked before.
+  4: (save) => ({ ...save, version: 5, progress: createProgress() }),
+  // v6: game modes. Older games were free play, and a won game becomes a
+  // finished free-play session.
+  5: (save) => {
+    const { isVictoryAchieved, ...player } = isRecord(save.player)
+      ? save.player
+      : {};
+    const world = isRecord(save.world) ? save.world : {};
+    const savedAt = isFiniteNumber(save.savedAt) ? save.savedAt : 0;
+    const mode = createModeSession(DEFAULT_MODE_ID, savedAt);
+    if (isVictoryAchieved === true) {
+      const ruleset = findRuleset(String(world.rulesetId));
+      mode.highestValue = ruleset?.victoryThreshold ?? 0;
+      mode.result = {
+        reason: "goalReached",
+        endedAt: savedAt,
+        score: isFiniteNumber(player.points) ? player.points : 0,
+      };
+    }
+    return { ...save, version: 6, player, mode };
+  },
+  // v7: the save slot keeps its cells in chunks. Older saves held them
+  // inline.
+  6: (save) => ({ ...save, version: 7, cellStorage: "inline" }),
+  // v8: pluggable grids. Older saves used the lat/lng grid.
+  7: (save) => ({
+    ...save,
+    version: 8,
+    world: isRecord(save.world)
+      ? { ...save.world, gridId: DEFAULT_GRID_ID }
+      : save.world,
+  }),
+};
+
+function withBitKind(token: unknown): unknown {
+  return isRecord(token) ? { kind: "bit", ...token } : token;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export function checkCellMemento(
+  errors: string[],
+  field: string,
+  value: unknown,
+): void {
+  if (!isRecord(value)) {
+    errors.push(`${field} must be an object`);
+    return;
+  }
+  if (
+    typeof value.cellKey !== "string" || !/^-?\d+,-?\d+$/.test(value.cellKey)
+  ) {
+    errors.push(`${field}.cellKey must look like "i,j"`);
+  }
+  if (!isFiniteNumber(value.timestamp)) {
+    errors.push(`${field}.timestamp must be a number`);
+  }
+  if (value.token !== null && !isToken(value.token)) {
+    errors.push(`${field}.token must be null or a token of a known kind`);
+  }
+}
+
+function checkPlayer(errors: string[], player: unknown): void {
+  if (!isRecord(player)) {
+    errors.push("player must be an object");
+    return;
+  }
+
+  const inventory = player.inventory;
+  if (!Array.isArray(inventory) || inventory.length === 0) {
+    errors.push("player.inventory must be a non-empty array");
+  } else {
+    inventory.forEach((slot, index) => {
+      if (slot !== null && !isToken(slot)) {
+        errors.push(
+          `player.inventory[${index}] must be null or a token of a known kind`,
+        );
+      }
+    });
+    if (
+      !Number.isInteger(player.activeSlot) ||
+      (player.activeSlot as number) < 0 ||
+      (player.activeSlot as number) >= inventory.length
+    ) {
+      errors.push("player.activeSlot must index an inventory slot");
+    }
+  }
+
+  const location = player.location;
+  if (
+    !isRecord(location) ||
+    !isFiniteNumber(location.lat) || Math.abs(location.lat) > 90 ||
+    !isFiniteNumber(location.lng) || Math.abs(location.lng) > 180
+  ) {
+    errors.push("player.location must hold a valid lat and lng");
+  }
+  if (!isFiniteNumber(player.points) || player.points < 0) {
+    errors.push("player.points must be a non-negative number");
+  }
+}
+
+// Returns one message per schema violation; an empty list means valid
+export function validateSaveDocument(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!isRecord(value)) return ["save must be an object"];
+
+  if (value.version !== SAVE_FORMAT_VERSION) {
+    errors.push(`version must be ${SAVE_FORMAT_VERSION}`);
+  }
+  if (!isFiniteNumber(value.savedAt)) {
+    errors.push("savedAt must be a number");
+  }
+
+  const world = value.world;
+  if (!isRecord(world)) {
+    errors.push("world must be an object");
+  } else {
+    if (typeof world.seed !== "string") {
+      errors.push("world.seed must be a string");
+    }
+    if (typeof world.rulesetId !== "string" || !findRuleset(world.rulesetId)) {
+      errors.push("world.rulesetId must name a known ruleset");
+    }
+    if (typeof world.gridId !== "string" || !findGridProjection(world.gridId)) {
+      errors.push("world.gridId must name a known grid");
+    }
+  }
+
+  if (value.cellStorage !== "inline" && value.cellStorage !== "chunks") {
+    errors.push('cellStorage must be "inline" or "chunks"');
+  }
+  if (!Array.isArray(value.cells)) {
+    errors.push("cells must be an array");
+  } else if (value.cellStorage === "chunks" && value.cells.length > 0) {
+    errors.push("cells must be empty when they are stored in chunks");
+  } else {
+    const seenKeys = new Set<unknown>();
+    value.cells.forEach((cell, index) => {
+      checkCellMemento(errors, `cells[${index}]`, cell);
+      const key = isRecord(cell) ? cell.cellKey : undefined;
+      if (seenKeys.has(key)) {
+        errors.push(`cells[${index}] repeats cell ${key}`);
+      }
+      seenKeys.add(key);
+    });
+  }
+
+  checkPlayer(errors, value.player);
+
+  const progress = value.progress;
+  if (!isRecord(progress)) {
+    errors.push("progress must be an object");
+  } else {
+    errors.push(
+      ...validateStatistics(progress.stats).map((error) => `progress.${error}`),
+      ...validateUnlockedAchievements(progress.achievements).map((error) =>
+        `progress.${error}`
+      ),
+    );
+  }
+
+  errors.push(...validateModeSession(value.mode));
+  return errors;
+}
+
+// Brings an older save up to date; a version this build does not know is
+// reported rather than guessed at
+function upgradeSave(raw: unknown): { save: unknown; errors: string[] } {
+  if (!isRecord(raw)) return { save: raw, errors: ["save must be an object"] };
+
+  const version = raw.version;
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    return { save: raw, errors: ["version must be a positive integer"] };
+  }
+  if ((version as number) > SAVE_FORMAT_VERSION) {
+    return {
+      save: raw,
+      errors: [
+        `save version ${version} is newer than this game supports ` +
+        `(version ${SAVE_FORMAT_VERSION})`,
+      ],
+    };
+  }
+
+  let save = raw as RawSave;
+  while (save.version < SAVE_FORMAT_VERSION) {
+    const migrate = SAVE_MIGRATIONS[save.version];
+    if (!migrate) {
+      return {
+        save,
+        errors: [`no migration from save version ${save.version}`],
+      };
+    }
+    save = migrate(save);
+  }
+  return { save, errors: [] };
+}
+
+export type SaveParseResult =
+  | { ok: true; save: SaveDocument }
+  | { ok: false; errors: string[] };
+
+export function parseSaveDocument(raw: unknown): SaveParseResult {
+  const upgraded = upgradeSave(raw);
+  const errors = upgraded.errors.length > 0
+    ? upgraded.errors
+    : validateSaveDocument(upgraded.save);
+
+  return errors.length === 0
+    ? { ok: true, save: upgraded.save as SaveDocument }
+    : { ok: false, errors };
+}
+
+export function migrateSave(raw: unknown): SaveDocument | null {
+  const result = parseSaveDocument(raw);
+  if (!result.ok) {
+    console.warn(`Invalid save: ${result.errors.join("; ")}`);
+    return null;
+  }
+  return result.save;
+}
+
+export function createSaveDocument(
+  world: GameWorld,
+  player: PlayerState,
+  progress: PlayerProgress = createProgress(),
+  mode: ModeSession = createModeSession(DEFAULT_MODE_ID, Date.now()),
+  cellStorage: CellStorage = "inline",
+): SaveDocument {
+  return {
+    version: SAVE_FORMAT_VERSION,
+    savedAt: Date.now(),
+    world: {
+      seed: world.generation.seed,
+      rulesetId: world.ruleset.id,
+      gridId: world.grid.id,
+    },
+    cellStorage,
+    cells: cellStorage === "inline"
+      ? Array.from(world.caretaker.getAllStates().values())
+      : [],
+    player: {
+      inventory: player.inventory.map((token) => token ? { ...token } : null),
+      activeSlot: player.activeSlot,
+      location: { lat: player.location.lat, lng: player.location.lng },
+      points: player.points,
+    },
+    progress: structuredClone(progress),
+    mode: structuredClone(mode),
+  };
+}
+
+// The world itself is not rebuilt here: callers create the GameWorld from
+// save.world first so that untouched cells regenerate identically. Chunked
+// cells are read from the store the caller attached to the caretaker.
+export function applySaveDocument(
+  save: SaveDocument,
+  world: GameWorld,
+  player: PlayerState,
+): void {
+  if (save.cellStorage === "inline") world.caretaker.loadStates(save.cells);
+  // Pad to the ruleset's slot count, but never drop a saved token
+  const inventory = save.player.inventory.map((token) =>
+    token ? { ...token } : null
+  );
+  while (inventory.length < world.ruleset.inventorySlots) inventory.push(null);
+  player.inventory = inventory;
+  player.activeSlot = Math.min(
+    Math.max(save.player.activeSlot, 0),
+    inventory.length - 1,
+  );
+  player.location = { ...save.player.location };
+  player.points = save.player.points;
+}
+
+// Writes the chunks that changed since the last save, then the rest of the
+// game. The caretaker must have the slot's chunk store attached.
+export function saveGame(
+  world: GameWorld,
+  player: PlayerState,
+  progress: PlayerProgress,
+  mode: ModeSession,
+): void {
+  world.caretaker.flush();
+  try {
+    localStorage.setItem(
+      CONFIG.SAVE.STORAGE_KEY,
+      JSON.stringify(
+        createSaveDocument(world, player, progress, mode, "chunks"),
+      ),
+    );
+  } catch (error) {
+    console.warn("Failed to save game:", error);
+  }
+}
+
+// Replaces the stored save in one write, so a failure leaves the previous
+// save untouched
+export function storeSaveDocument(save: SaveDocument): boolean {
+  try {
+    localStorage.setItem(CONFIG.SAVE.STORAGE_KEY, JSON.stringify(save));
+    return true;
+  } catch (error) {
+    console.warn("Failed to store save:", error);
+    return false;
+  }
+}
+
+export function deleteSavedGame(): void {
+  try {
+    localStorage.removeItem(CONFIG.SAVE.STORAGE_KEY);
+  } catch (error) {
+    console.warn("Failed to delete saved game:", error);
+  }
+  saveSlotChunks.clear();
+}
+
+// Reads and migrates the stored save without applying it
+export function readSavedGame(): SaveDocument | null {
+  let raw: unknown;
+  try {
+    const stored = localStorage.getItem(CONFIG.SAVE.STORAGE_KEY);
+    if (stored === null) return null;
+    raw = JSON.parse(stored);
+  } catch (error) {
+    console.warn("Failed to read saved game:", error);
+    return null;
+  }
+
+  const save = migrateSave(raw);
+  if (!save) {
+    console.warn("Ignoring unreadable saved game:", raw);
+  }
+  return save;
+}
+
+// =============================================
+// CHUNK STORAGE
+// =============================================
+
+// Each chunk of the save slot's cells is its own localStorage entry, so a
+// save only rewrites the chunks that changed
+export class LocalStorageChunkStore implements ChunkStore {
+  constructor(private keyPrefix: string) {}
+
+  listChunks(): ChunkKey[] {
+    try {
+      return this.listEntryKeys().map((key) =>
+        key.slice(this.keyPrefix.length)
+      );
+    } catch (error) {
+      console.warn("Failed to list saved chunks:", error);
+      return [];
+    }
+  }
+
+  // A chunk that fails validation is skipped whole rather than half-read
+  readChunk(chunkKey: ChunkKey): CellMemento[] {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(
+        localStorage.getItem(this.keyPrefix + chunkKey) ?? "[]",
+      );
+    } catch (error) {
+      console.warn(`Failed to read saved chunk ${chunkKey}:`, error);
+      return [];
+    }
+
+    const errors: string[] = [];
+    if (Array.isArray(raw)) {
+      raw.forEach((memento, index) =>
+        checkCellMemento(errors, `chunk ${chunkKey}[${index}]`, memento)
+      );
+    } else {
+      errors.push(`chunk ${chunkKey} must be an array`);
+    }
+    if (errors.length > 0) {
+      console.warn(`Ignoring invalid saved chunk: ${errors.join("; ")}`);
+      return [];
+    }
+    return raw as CellMemento[];
+  }
+
+  writeChunk(chunkKey: ChunkKey, mementos: CellMemento[]): boolean {
+    try {
+      if (mementos.length === 0) {
+        localStorage.removeItem(this.keyPrefix + chunkKey);
+      } else {
+        localStorage.setItem(
+          this.keyPrefix + chunkKey,
+          JSON.stringify(mementos),
+        );
+      }
+      return true;
+    } catch (error) {
+      console.warn(`Failed to save chunk ${chunkKey}:`, error);
+      return false;
+    }
+  }
+
+  clear(): void {
+    try {
+      for (const key of this.listEntryKeys()) localStorage.removeItem(key);
+    } catch (error) {
+      console.warn("Failed to clear saved chunks:", error);
+    }
+  }
+
+  private listEntryKeys(): string[] {
+    const keys: string[] = [];
+    for (let index = 0; index < localStorage.length; index++) {
+      const key = localStorage.key(index);
+      if (key?.startsWith(this.keyPrefix)) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+// The chunks belonging to the save slot
+export const saveSlotChunks = new LocalStorageChunkStore(
+  CONFIG.SAVE.CHUNK_KEY_PREFIX,
+);
+
+// =============================================
+// SAVE FILES
+// =============================================
+
+export function exportSaveFile(
+  world: GameWorld,
+  player: PlayerState,
+  progress: PlayerProgress,
+  mode: ModeSession,
+): Blob {
+  const save = createSaveDocument(world, player, progress, mode);
+  return new Blob([JSON.stringify(save, null, 2)], {
+    type: "application/json",
+  });
+}
+
+// Nothing is applied here: the caller decides what to do with a valid save.
+// A file has to carry its cells inline, as exports do: cells in chunks would
+// be read from the save slot and mix the current game into the import.
+export async function importSaveFile(file: File): Promise<SaveParseResult> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    return { ok: false, errors: [`${file.name} is not valid JSON`] };
+  }
+
+  const result = parseSaveDocument(raw);
+  if (result.ok && result.save.cellStorage !== "inline") {
+    return {
+      ok: false,
+      errors: ['cellStorage must be "inline" in a save file'],
+    };
+  }
+  return result;
+}
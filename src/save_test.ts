@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { CONFIG } from "./config.ts";
+import { GameWorld } from "./engine.ts";
+import { findGridProjection } from "./grid.ts";
+import { findRuleset } from "./rulesets.ts";
+import {
+  type CellStorage,
+  createSaveDocument,
+  importSaveFile,
+} from "./save.ts";
+import type { PlayerState } from "./types.ts";
+import { getSpawnCenter } from "./worldgen.ts";
+
+function createSaveFile(cellStorage: CellStorage): File {
+  const grid = findGridProjection("latLng")!;
+  const world = new GameWorld({
+    seed: "save-test",
+    ruleset: findRuleset("classic")!,
+    grid,
+    spawnCenter: getSpawnCenter(grid),
+  });
+  world.caretaker.saveState("1,2", { kind: "bit", value: 4 }, 0);
+  const player: PlayerState = {
+    inventory: [null],
+    activeSlot: 0,
+    location: { ...CONFIG.CLASSROOM_LOCATION },
+    points: 0,
+  };
+
+  const save = createSaveDocument(
+    world,
+    player,
+    undefined,
+    undefined,
+    cellStorage,
+  );
+  return new File([JSON.stringify(save)], "save.json");
+}
+
+Deno.test("an exported save file imports with its cells", async () => {
+  const result = await importSaveFile(createSaveFile("inline"));
+
+  assert.ok(result.ok);
+  assert.deepStrictEqual(result.save.cells, [
+    { cellKey: "1,2", token: { kind: "bit", value: 4 }, timestamp: 0 },
+  ]);
+});
+
+Deno.test("a save file with cells in chunks is rejected", async () => {
+  const result = await importSaveFile(createSaveFile("chunks"));
+
+  assert.deepStrictEqual(result, {
+    ok: false,
+    errors: ['cellStorage must be "inline" in a save file'],
+  });
+});
@@ -0,0 +1,160 @@
+import type { GameEngine, GameEvent } from "./engine.ts";
+import { cellToKey } from "./grid.ts";
+import type { CellCoordinates, CellKey } from "./types.ts";
+
+// =============================================
+// STATISTICS
+// =============================================
+
+// Counts only ever grow: undoing an action does not take it back
+export interface GameStatistics {
+  pickups: number;
+  drops: number;
+  merges: Record<number, number>; // Resulting token value -> merge count
+  distanceWalked: number; // In cells, Chebyshev distance per move
+  visitedCells: CellKey[]; // Each cell the player has stood on, once
+  playTimeMs: number;
+  powerReachedAt: Record<number, number>; // Power of two -> play time in ms
+}
+
+export function createStatistics(): GameStatistics {
+  return {
+    pickups: 0,
+    drops: 0,
+    merges: {},
+    distanceWalked: 0,
+    visitedCells: [],
+    playTimeMs: 0,
+    powerReachedAt: {},
+  };
+}
+
+export function countMerges(stats: GameStatistics, minValue = 0): number {
+  return Object.entries(stats.merges)
+    .filter(([value]) => Number(value) >= minValue)
+    .reduce((total, [, count]) => total + count, 0);
+}
+
+export function formatPlayTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return `${minutes}:${seconds}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isCount(value: unknown): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function checkValueRecord(
+  errors: string[],
+  field: string,
+  value: unknown,
+): void {
+  if (!isRecord(value)) {
+    errors.push(`${field} must be an object`);
+    return;
+  }
+  for (const [key, entry] of Object.entries(value)) {
+    if (!Number.isInteger(Number(key)) || Number(key) < 1) {
+      errors.push(`${field} key ${key} must be a positive integer`);
+    }
+    if (!isCount(entry)) {
+      errors.push(`${field}[${key}] must be a non-negative integer`);
+    }
+  }
+}
+
+// Returns one message per schema violation; an empty list means valid
+export function validateStatistics(value: unknown): string[] {
+  if (!isRecord(value)) return ["stats must be an object"];
+
+  const errors: string[] = [];
+  for (const field of ["pickups", "drops", "distanceWalked", "playTimeMs"]) {
+    if (!isCount(value[field])) {
+      errors.push(`stats.${field} must be a non-negative integer`);
+    }
+  }
+  checkValueRecord(errors, "stats.merges", value.merges);
+  checkValueRecord(errors, "stats.powerReachedAt", value.powerReachedAt);
+  if (
+    !Array.isArray(value.visitedCells) ||
+    !value.visitedCells.every((key) => typeof key === "string")
+  ) {
+    errors.push("stats.visitedCells must be an array of cell keys");
+  }
+  return errors;
+}
+
+// Keeps a GameStatistics up to date from engine events. Play time only runs
+// while a tracker is attached, i.e. while the game is open.
+export class StatisticsTracker {
+  private stats: GameStatistics;
+  private visited: Set<CellKey>;
+  private lastCell: CellCoordinates;
+  private sessionStart = Date.now();
+
+  constructor(private engine: GameEngine, stats = createStatistics()) {
+    this.stats = structuredClone(stats);
+    this.visited = new Set(this.stats.visitedCells);
+    this.lastCell = engine.getPlayerCell();
+    this.visit(this.lastCell);
+    engine.subscribe((event) => this.handleEvent(event));
+  }
+
+  // A copy with the current session's play time folded in
+  snapshot(): GameStatistics {
+    return {
+      ...structuredClone(this.stats),
+      visitedCells: Array.from(this.visited),
+      playTimeMs: this.getPlayTime(),
+    };
+  }
+
+  getPlayTime(): number {
+    return this.stats.playTimeMs + (Date.now() - this.sessionStart);
+  }
+
+  private handleEvent(event: GameEvent): void {
+    switch (event.type) {
+      case "cellInteraction":
+        if (event.action === "pickup") {
+          this.stats.pickups++;
+          this.reach(this.engine.getActiveToken()?.value ?? 0);
+        } else if (event.action === "drop") {
+          this.stats.drops++;
+        } else if (event.action === "merge" && event.cell.token) {
+          const value = event.cell.token.value;
+          this.stats.merges[value] = (this.stats.merges[value] ?? 0) + 1;
+          this.reach(value);
+        }
+        break;
+      case "playerMoved": {
+        const cell = this.engine.getPlayerCell();
+        this.stats.distanceWalked += this.engine.world.grid.cellDistance(
+          this.lastCell,
+          cell,
+        );
+        this.lastCell = cell;
+        this.visit(cell);
+        break;
+      }
+    }
+  }
+
+  private visit(cell: CellCoordinates): void {
+    this.visited.add(cellToKey(cell.i, cell.j));
+  }
+
+  // Stamps every power of two up to the value that has no time yet
+  private reach(value: number): void {
+    const playTime = this.getPlayTime();
+    for (let power = 1; power <= value; power *= 2) {
+      this.stats.powerReachedAt[power] ??= playTime;
+    }
+  }
+}
@@ -0,0 +1,337 @@
+import type { GameEngine, GameEvent } from "./engine.ts";
+import { cellToKey } from "./grid.ts";
+import type { CellMemento } from "./memento.ts";
+import { checkCellMemento } from "./save.ts";
+import type { SyncTransport } from "./transport.ts";
+import type { CellKey, WorldCoordinates } from "./types.ts";
+
+// =============================================
+// SYNC MESSAGES
+// =============================================
+
+// Who last changed a cell and when. Versions order every edit the same way
+// in every tab: the later timestamp wins, and the higher player id breaks
+// ties, so peers that saw edits in different orders still agree.
+export interface CellVersion {
+  timestamp: number;
+  playerId: string;
+}
+
+export function isNewerVersion(a: CellVersion, b: CellVersion): boolean {
+  if (a.timestamp !== b.timestamp) return a.timestamp > b.timestamp;
+  return a.playerId > b.playerId;
+}
+
+export interface SyncedCell {
+  memento: CellMemento;
+  playerId: string; // Who made the change the memento records
+}
+
+// Every message names its world; peers playing another world ignore it
+export type SyncMessage =
+  | { type: "hello"; world: string; playerId: string }
+  | { type: "cells"; world: string; playerId: string; cells: SyncedCell[] }
+  | {
+    type: "player";
+    world: string;
+    playerId: string;
+    location: WorldCoordinates;
+  }
+  | { type: "leave"; world: string; playerId: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+// Returns one message per schema violation; an empty list means valid
+export function validateSyncMessage(value: unknown): string[] {
+  if (!isRecord(value)) return ["message must be an object"];
+
+  const errors: string[] = [];
+  if (typeof value.world !== "string") errors.push("world must be a string");
+  if (typeof value.playerId !== "string" || value.playerId === "") {
+    errors.push("playerId must be a non-empty string");
+  }
+
+  switch (value.type) {
+    case "hello":
+    case "leave":
+      break;
+    case "cells":
+      if (!Array.isArray(value.cells)) {
+        errors.push("cells must be an array");
+        break;
+      }
+      value.cells.forEach((cell, index) => {
+        if (!isRecord(cell) || typeof cell.playerId !== "string") {
+          errors.push(`cells[${index}].playerId must be a string`);
+          return;
+        }
+        checkCellMemento(errors, `cells[${index}].memento`, cell.memento);
+      });
+      break;
+    case "player":
+      if (
+        !isRecord(value.location) || !isFiniteNumber(value.location.lat) ||
+        !isFiniteNumber(value.location.lng)
+      ) {
+        errors.push("location must hold a lat and lng");
+      }
+      break;
+    default:
+      errors.push(`type ${String(value.type)} is not a sync message`);
+  }
+  return errors;
+}
+
+// =============================================
+// SYNC SESSION
+// =============================================
+
+export interface RemotePlayer {
+  playerId: string;
+  location: WorldCoordinates;
+  lastSeen: number;
+}
+
+export type SyncEvent =
+  | { type: "peerMoved"; peer: RemotePlayer }
+  | { type: "peerLeft"; playerId: string }
+  | { type: "cellsReceived"; cellKeys: CellKey[] };
+
+export interface SyncOptions {
+  playerId: string;
+  world: string; // Peers only sync with the same world, see getWorldId
+  heartbeatMs: number;
+  peerTimeoutMs: number;
+}
+
+export function getWorldId(
+  seed: string,
+  rulesetId: string,
+  gridId: string,
+): string {
+  return `${gridId}:${rulesetId}:${seed}`;
+}
+
+// Shares the engine's cell changes and the player's position with every
+// peer on the transports, and applies theirs. Cell states are merged per
+// cell by CellVersion, so all peers settle on the same board.
+export class SyncSession {
+  private versions = new Map<CellKey, CellVersion>();
+  private peers = new Map<string, RemotePlayer>();
+  private listeners = new Set<(event: SyncEvent) => void>();
+  private unsubscribers: (() => void)[] = [];
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private isApplyingRemote = false;
+
+  constructor(
+    private engine: GameEngine,
+    readonly transports: SyncTransport[],
+    private options: SyncOptions,
+  ) {}
+
+  get playerId(): string {
+    return this.options.playerId;
+  }
+
+  getPeers(): RemotePlayer[] {
+    return Array.from(this.peers.values());
+  }
+
+  subscribe(listener: (event: SyncEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  start(): void {
+    for (const transport of this.transports) {
+      this.unsubscribers.push(
+        transport.subscribe((message) => this.receive(message)),
+      );
+    }
+    this.unsubscribers.push(
+      this.engine.subscribe((event) => this.handleGameEvent(event)),
+    );
+
+    this.send({ type: "hello", ...this.identity() });
+    this.sendPosition();
+    this.heartbeat = setInterval(() => {
+      this.sendPosition();
+      this.dropSilentPeers();
+    }, this.options.heartbeatMs);
+  }
+
+  stop(): void {
+    this.send({ type: "leave", ...this.identity() });
+    if (this.heartbeat !== null) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+    for (const unsubscribe of this.unsubscribers.splice(0)) unsubscribe();
+    for (const transport of this.transports) transport.close();
+  }
+
+  private identity(): { world: string; playerId: string } {
+    return { world: this.options.world, playerId: this.options.playerId };
+  }
+
+  private emit(event: SyncEvent): void {
+    for (const listener of this.listeners) listener(event);
+  }
+
+  private send(message: SyncMessage): void {
+    for (const transport of this.transports) transport.send(message);
+  }
+
+  private sendPosition(): void {
+    this.send({
+      type: "player",
+      ...this.identity(),
+      location: this.engine.player.location,
+    });
+  }
+
+  // -------- Outgoing --------
+
+  private handleGameEvent(event: GameEvent): void {
+    if (event.type === "playerMoved") {
+      this.sendPosition();
+    } else if (
+      event.type === "cellChanged" && event.cell.isModified &&
+      !this.isApplyingRemote
+    ) {
+      const { i, j } = event.cell.coordinates;
+      this.shareLocalChange(cellToKey(i, j));
+    }
+  }
+
+  private shareLocalChange(cellKey: CellKey): void {
+    const caretaker = this.engine.world.caretaker;
+    let memento = caretaker.getState(cellKey);
+    if (!memento) return;
+
+    // A local edit always supersedes the version it was made on, even when
+    // this device's clock is behind the peer that made that version
+    const known = this.versions.get(cellKey);
+    if (known && known.timestamp >= memento.timestamp) {
+      memento = { ...memento, timestamp: known.timestamp + 1 };
+      caretaker.putState(memento);
+    }
+
+    const version = { timestamp: memento.timestamp, playerId: this.playerId };
+    this.versions.set(cellKey, version);
+    this.send({
+      type: "cells",
+      ...this.identity(),
+      cells: [{ memento, playerId: this.playerId }],
+    });
+  }
+
+  // Cells without a recorded version were changed here before syncing began
+  private getVersion(cellKey: CellKey): CellVersion | undefined {
+    const known = this.versions.get(cellKey);
+    if (known) return known;
+
+    const memento = this.engine.world.caretaker.getState(cellKey);
+    return memento
+      ? { timestamp: memento.timestamp, playerId: this.playerId }
+      : undefined;
+  }
+
+  // One message per region chunk keeps each message small
+  private shareAllCells(): void {
+    const caretaker = this.engine.world.caretaker;
+    for (const chunkKey of caretaker.getChunkKeys()) {
+      const cells = caretaker.getChunkStates(chunkKey).map((memento) => {
+        const version = this.getVersion(memento.cellKey)!;
+        return {
+          memento: { ...memento, timestamp: version.timestamp },
+          playerId: version.playerId,
+        };
+      });
+      if (cells.length > 0) {
+        this.send({ type: "cells", ...this.identity(), cells });
+      }
+    }
+  }
+
+  // -------- Incoming --------
+
+  private receive(raw: unknown): void {
+    const errors = validateSyncMessage(raw);
+    if (errors.length > 0) {
+      console.warn(`Ignoring invalid sync message: ${errors.join("; ")}`);
+      return;
+    }
+
+    const message = raw as SyncMessage;
+    if (
+      message.world !== this.options.world ||
+      message.playerId === this.playerId
+    ) {
+      return;
+    }
+
+    switch (message.type) {
+      case "hello":
+        // Bring the newcomer up to date
+        this.shareAllCells();
+        this.sendPosition();
+        break;
+      case "cells":
+        this.applyCells(message.cells);
+        break;
+      case "player":
+        this.updatePeer(message.playerId, message.location);
+        break;
+      case "leave":
+        this.removePeer(message.playerId);
+        break;
+    }
+  }
+
+  private applyCells(cells: SyncedCell[]): void {
+    const applied: CellKey[] = [];
+
+    this.isApplyingRemote = true;
+    try {
+      for (const { memento, playerId } of cells) {
+        const incoming = { timestamp: memento.timestamp, playerId };
+        const current = this.getVersion(memento.cellKey);
+        if (current && !isNewerVersion(incoming, current)) continue;
+
+        this.versions.set(memento.cellKey, incoming);
+        this.engine.applyCellMemento(memento);
+        applied.push(memento.cellKey);
+      }
+    } finally {
+      this.isApplyingRemote = false;
+    }
+
+    if (applied.length > 0) {
+      this.emit({ type: "cellsReceived", cellKeys: applied });
+    }
+  }
+
+  private updatePeer(playerId: string, location: WorldCoordinates): void {
+    const peer = { playerId, location, lastSeen: Date.now() };
+    this.peers.set(playerId, peer);
+    this.emit({ type: "peerMoved", peer });
+  }
+
+  private removePeer(playerId: string): void {
+    if (this.peers.delete(playerId)) {
+      this.emit({ type: "peerLeft", playerId });
+    }
+  }
+
+  private dropSilentPeers(): void {
+    const cutoff = Date.now() - this.options.peerTimeoutMs;
+    for (const peer of this.getPeers()) {
+      if (peer.lastSeen < cutoff) this.removePeer(peer.playerId);
+    }
+  }
+}
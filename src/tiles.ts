@@ -0,0 +1,94 @@
+// @deno-types="npm:@types/leaflet"
+import leaflet from "leaflet";
+
+// =============================================
+// TILE PROVIDERS
+// =============================================
+
+export interface TileProvider {
+  id: string;
+  name: string;
+  requiresNetwork: boolean; // False when every tile is drawn locally
+  createLayers(): leaflet.Layer[]; // Bottom to top
+}
+
+const GRID_BACKGROUND = {
+  fill: "#eef1f4",
+  line: "rgba(0, 0, 0, 0.08)",
+} as const;
+
+// A plain background drawn on canvas, so the map never needs the network
+class GridBackgroundLayer extends leaflet.GridLayer {
+  override createTile(): HTMLElement {
+    const size = this.getTileSize();
+    const canvas = document.createElement("canvas");
+    canvas.width = size.x;
+    canvas.height = size.y;
+
+    const context = canvas.getContext("2d");
+    if (context) {
+      context.fillStyle = GRID_BACKGROUND.fill;
+      context.fillRect(0, 0, size.x, size.y);
+      context.strokeStyle = GRID_BACKGROUND.line;
+      context.strokeRect(0.5, 0.5, size.x - 1, size.y - 1);
+    }
+    return canvas;
+  }
+}
+
+export const TILE_PROVIDERS: readonly TileProvider[] = [
+  {
+    id: "openStreetMap",
+    name: "OpenStreetMap",
+    requiresNetwork: true,
+    // The grid shows through wherever a tile is neither online nor cached
+    createLayers: () => [
+      new GridBackgroundLayer({ maxZoom: 19 }),
+      leaflet.tileLayer("https://tile.openstreetmap.org/{z}/{x}/{y}.png", {
+        maxZoom: 19,
+        attribution: "&copy; OpenStreetMap contributors",
+      }),
+    ],
+  },
+  {
+    id: "grid",
+    name: "Plain grid (offline)",
+    requiresNetwork: false,
+    createLayers: () => [new GridBackgroundLayer({ maxZoom: 19 })],
+  },
+];
+
+export const DEFAULT_TILE_PROVIDER_ID = "openStreetMap";
+
+export function findTileProvider(id: string): TileProvider | undefined {
+  return TILE_PROVIDERS.find((provider) => provider.id === id);
+}
+
+// The URL parameter wins over the stored choice, so test setups can force
+// the offline grid with ?tiles=grid
+export function resolveTileProvider(
+  paramName: string,
+  storageKey: string,
+): TileProvider {
+  const params = new URLSearchParams(globalThis.location.search);
+  let stored: string | null = null;
+  try {
+    stored = localStorage.getItem(storageKey);
+  } catch (error) {
+    console.warn("Failed to read tile provider:", error);
+  }
+
+  for (const id of [params.get(paramName), stored]) {
+    const provider = id === null ? undefined : findTileProvider(id);
+    if (provider) return provider;
+  }
+  return findTileProvider(DEFAULT_TILE_PROVIDER_ID)!;
+}
+
+export function saveTileProvider(storageKey: string, id: string): void {
+  try {
+    localStorage.setItem(storageKey, id);
+  } catch (error) {
+    console.warn("Failed to save tile provider:", error);
+  }
+}
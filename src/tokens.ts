@@ -0,0 +1,115 @@
+import type { Token, TokenKind } from "./types.ts";
+
+// =============================================
+// TOKEN KINDS
+// =============================================
+
+export interface TokenKindInfo {
+  name: string;
+  symbol: string; // Prefixed to the value in labels; empty for plain bits
+  color: string;
+}
+
+export const TOKEN_KINDS: Record<TokenKind, TokenKindInfo> = {
+  bit: { name: "Bit", symbol: "", color: "#ff3388" },
+  fire: { name: "Fire", symbol: "🔥", color: "#ff5500" },
+  water: { name: "Water", symbol: "💧", color: "#0077ff" },
+  earth: { name: "Earth", symbol: "🪨", color: "#8b5a2b" },
+  air: { name: "Air", symbol: "💨", color: "#33bbbb" },
+};
+
+export function isTokenKind(value: unknown): value is TokenKind {
+  return typeof value === "string" && Object.hasOwn(TOKEN_KINDS, value);
+}
+
+export function isToken(value: unknown): value is Token {
+  if (typeof value !== "object" || value === null) return false;
+
+  const token = value as Record<string, unknown>;
+  return isTokenKind(token.kind) && typeof token.value === "number" &&
+    Number.isInteger(token.value) && token.value > 0;
+}
+
+export function isSameToken(a: Token | null, b: Token | null): boolean {
+  if (a === null || b === null) return a === b;
+  return a.kind === b.kind && a.value === b.value;
+}
+
+export function describeToken(token: Token): string {
+  return `${TOKEN_KINDS[token.kind].symbol}${token.value}`;
+}
+
+// =============================================
+// MERGE RECIPES
+// =============================================
+
+// Matches tokens of a kind, optionally only at one exact value
+export interface TokenPattern {
+  kind: TokenKind;
+  value?: number;
+}
+
+// Two tokens matching the ingredients (in either order) combine into one
+// token of the produced kind whose value is the sum of both values
+export interface MergeRecipe {
+  ingredients: [TokenPattern, TokenPattern];
+  sameValue: boolean; // Both tokens must hold equal values
+  produces: TokenKind;
+}
+
+// The classic rule for each kind: equal tokens double
+export function sameKindRecipes(...kinds: TokenKind[]): MergeRecipe[] {
+  return kinds.map((kind) => ({
+    ingredients: [{ kind }, { kind }],
+    sameValue: true,
+    produces: kind,
+  }));
+}
+
+function matchesPattern(token: Token, pattern: TokenPattern): boolean {
+  return token.kind === pattern.kind &&
+    (pattern.value === undefined || token.value === pattern.value);
+}
+
+function matchesRecipe(recipe: MergeRecipe, a: Token, b: Token): boolean {
+  if (recipe.sameValue && a.value !== b.value) return false;
+
+  const [first, second] = recipe.ingredients;
+  return (matchesPattern(a, first) && matchesPattern(b, second)) ||
+    (matchesPattern(a, second) && matchesPattern(b, first));
+}
+
+// The first matching recipe wins, so list specific recipes before general ones
+export function findRecipe(
+  recipes: readonly MergeRecipe[],
+  a: Token,
+  b: Token,
+): MergeRecipe | null {
+  return recipes.find((recipe) => matchesRecipe(recipe, a, b)) ?? null;
+}
+
+// Returns the token the two tokens would merge into, or null if no recipe
+// combines them
+export function combineTokens(
+  recipes: readonly MergeRecipe[],
+  a: Token,
+  b: Token,
+): Token | null {
+  const recipe = findRecipe(recipes, a, b);
+  if (!recipe) return null;
+  return { kind: recipe.produces, value: a.value + b.value };
+}
+
+function describePattern(pattern: TokenPattern): string {
+  const info = TOKEN_KINDS[pattern.kind];
+  const value = pattern.value === undefined ? "" : ` ${pattern.value}`;
+  return `${info.symbol}${info.name}${value}`;
+}
+
+export function describeRecipe(recipe: MergeRecipe): string {
+  const [first, second] = recipe.ingredients;
+  const condition = recipe.sameValue ? " (equal values)" : "";
+  const result = TOKEN_KINDS[recipe.produces];
+  return `${describePattern(first)} + ${describePattern(second)}` +
+    `${condition} → ${result.symbol}${result.name}`;
+}
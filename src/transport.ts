@@ -0,0 +1,112 @@
+// =============================================
+// SYNC TRANSPORTS
+// =============================================
+
+// Carries sync messages between game instances. Transports only move JSON;
+// they do not check what they carry, that is up to the receiver.
+export interface SyncTransport {
+  readonly label: string;
+  send(message: unknown): void;
+  subscribe(listener: (message: unknown) => void): () => void;
+  close(): void;
+}
+
+// Reaches every tab of this browser that has the game open
+export class BroadcastChannelTransport implements SyncTransport {
+  readonly label = "Browser tabs";
+  private channel: BroadcastChannel;
+
+  constructor(channelName: string) {
+    this.channel = new BroadcastChannel(channelName);
+  }
+
+  send(message: unknown): void {
+    this.channel.postMessage(message);
+  }
+
+  subscribe(listener: (message: unknown) => void): () => void {
+    const handler = (event: MessageEvent) => listener(event.data);
+    this.channel.addEventListener("message", handler);
+    return () => this.channel.removeEventListener("message", handler);
+  }
+
+  close(): void {
+    this.channel.close();
+  }
+}
+
+const MAX_QUEUED_MESSAGES = 500; // Oldest are dropped while disconnected
+
+// Talks to a relay server that forwards each message to every other
+// connection (see scripts/relay.ts). Messages sent before the socket opens
+// are queued, and a dropped connection is retried.
+export class WebSocketTransport implements SyncTransport {
+  readonly label: string;
+  private socket: WebSocket | null = null;
+  private queue: string[] = [];
+  private listeners = new Set<(message: unknown) => void>();
+  private isClosed = false;
+
+  constructor(private url: string, private retryDelayMs: number) {
+    this.label = `Relay ${url}`;
+    this.connect();
+  }
+
+  send(message: unknown): void {
+    const data = JSON.stringify(message);
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(data);
+    } else if (!this.isClosed) {
+      this.queue.push(data);
+      this.queue.splice(0, this.queue.length - MAX_QUEUED_MESSAGES);
+    }
+  }
+
+  subscribe(listener: (message: unknown) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  close(): void {
+    this.isClosed = true;
+    this.socket?.close();
+  }
+
+  // A malformed URL will never connect, so the relay is given up and the
+  // game carries on without it
+  private connect(): void {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      console.warn(`Relay ${this.url} unavailable, playing without it:`, error);
+      this.isClosed = true;
+      this.queue = [];
+      return;
+    }
+    this.socket = socket;
+
+    socket.addEventListener("open", () => {
+      for (const data of this.queue.splice(0)) socket.send(data);
+    });
+    socket.addEventListener("message", (event) => this.receive(event.data));
+    socket.addEventListener("close", () => {
+      if (this.isClosed) return;
+      console.warn(`Relay ${this.url} disconnected, retrying`);
+      setTimeout(() => this.connect(), this.retryDelayMs);
+    });
+  }
+
+  private receive(data: unknown): void {
+    if (typeof data !== "string") return;
+
+    let message: unknown;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      console.warn("Ignoring relay message that is not JSON");
+      return;
+    }
+    for (const listener of this.listeners) listener(message);
+  }
+}
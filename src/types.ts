@@ -0,0 +1,44 @@
+// =============================================
+// INTERFACES & TYPES
+// =============================================
+
+// "bit" is the plain kind every token had before kinds existed
+export type TokenKind = "bit" | "fire" | "water" | "earth" | "air";
+
+export interface Token {
+  kind: TokenKind;
+  value: number;
+}
+
+export interface WorldCoordinates {
+  lat: number;
+  lng: number;
+}
+
+export interface WorldBounds {
+  southWest: WorldCoordinates;
+  northEast: WorldCoordinates;
+}
+
+export interface CellCoordinates {
+  i: number;
+  j: number;
+}
+
+export type CellKey = string;
+
+export type ChunkKey = string; // Keyed like cells, see getChunkKey
+
+// Updated GridCell interface to use flyweight coordinates
+export interface GridCell {
+  coordinates: CellCoordinates; // Flyweight object
+  token: Token | null;
+  isModified: boolean;
+}
+
+export interface PlayerState {
+  inventory: (Token | null)[]; // One entry per slot
+  activeSlot: number;
+  location: WorldCoordinates;
+  points: number;
+}
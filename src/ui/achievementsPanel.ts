@@ -0,0 +1,68 @@
+import { ACHIEVEMENTS, type UnlockedAchievements } from "../achievements.ts";
+import { formatPlayTime, type GameStatistics } from "../stats.ts";
+import { Component } from "./component.ts";
+import { type Child, h, list } from "./dom.ts";
+
+// =============================================
+// ACHIEVEMENTS PANEL
+// =============================================
+
+export interface ProgressState {
+  stats: GameStatistics;
+  unlocked: UnlockedAchievements;
+}
+
+// Only lists details while open, since play time changes constantly
+export class AchievementsPanel extends Component<ProgressState> {
+  constructor() {
+    super("details");
+    this.element.addEventListener("toggle", () => this.refresh());
+  }
+
+  protected render(state: ProgressState): Child[] {
+    const unlockedCount = Object.keys(state.unlocked).length;
+    const summary = h("summary", {
+      text: `Achievements (${unlockedCount}/${ACHIEVEMENTS.length}) ` +
+        `& Statistics`,
+    });
+    if (!(this.element as HTMLDetailsElement).open) return [summary];
+
+    const { stats } = state;
+    const achievements = ACHIEVEMENTS.map((achievement) => {
+      const isUnlocked = state.unlocked[achievement.id] !== undefined;
+      const progress = Math.min(achievement.progress(stats), achievement.goal);
+      return h(
+        "span",
+        {},
+        `${isUnlocked ? "🏆" : "🔒"} `,
+        h("strong", { text: achievement.name }),
+        ` — ${achievement.description} `,
+        h("progress", {
+          attrs: { max: String(achievement.goal), value: String(progress) },
+        }),
+        ` ${progress}/${achievement.goal}`,
+      );
+    });
+    const merges = Object.entries(stats.merges)
+      .map(([value, count]) => `${value}: ${count}`)
+      .join(", ") || "none";
+    const powers = Object.entries(stats.powerReachedAt)
+      .map(([value, time]) => `${value}: ${formatPlayTime(time)}`);
+
+    return [
+      summary,
+      list(achievements),
+      h("p", {}, h("strong", { text: "Statistics" })),
+      list([
+        `Pickups: ${stats.pickups}`,
+        `Drops: ${stats.drops}`,
+        `Merges by value: ${merges}`,
+        `Distance walked: ${stats.distanceWalked} cells`,
+        `Unique cells visited: ${stats.visitedCells.length}`,
+        `Play time: ${formatPlayTime(stats.playTimeMs)}`,
+      ]),
+      h("p", {}, h("strong", { text: "Time to reach each value" })),
+      list(powers.length > 0 ? powers : ["Nothing yet"]),
+    ];
+  }
+}
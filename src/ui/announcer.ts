@@ -0,0 +1,30 @@
+import { h } from "./dom.ts";
+
+// =============================================
+// SCREEN READER ANNOUNCEMENTS
+// =============================================
+
+// Visually hidden live regions. Polite messages wait for the screen reader
+// to finish speaking; urgent ones (errors, victory) interrupt it.
+export class Announcer {
+  private polite = h("div", {
+    attrs: { role: "status", "aria-live": "polite" },
+  });
+  private urgent = h("div", {
+    attrs: { role: "alert", "aria-live": "assertive" },
+  });
+  readonly element = h(
+    "div",
+    { className: "visually-hidden" },
+    this.polite,
+    this.urgent,
+  );
+
+  announce(message: string, isUrgent = false): void {
+    const region = isUrgent ? this.urgent : this.polite;
+
+    // Clearing first makes a repeated message count as a change
+    region.textContent = "";
+    requestAnimationFrame(() => region.textContent = message);
+  }
+}
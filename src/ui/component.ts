@@ -0,0 +1,61 @@
+import type { GameEvent } from "../engine.ts";
+import { type Child, h } from "./dom.ts";
+
+// =============================================
+// UI COMPONENTS
+// =============================================
+
+// A piece of UI that owns one root element and rebuilds its children from a
+// state object. Components never read the game directly: they are handed
+// their state, either by update() or by the source given to bind().
+export abstract class Component<State> {
+  readonly element: HTMLElement;
+  private source: (() => State) | null = null;
+  private state: State | null = null;
+
+  constructor(
+    tagName: keyof HTMLElementTagNameMap = "div",
+    className = "",
+  ) {
+    this.element = h(tagName, { className });
+  }
+
+  protected abstract render(state: State): Child[];
+
+  update(state: State): void {
+    this.state = state;
+    this.element.replaceChildren(
+      ...this.render(state).filter((child) => !!child) as (Node | string)[],
+    );
+  }
+
+  // Where refresh() reads fresh state from
+  bind(source: () => State): this {
+    this.source = source;
+    return this;
+  }
+
+  // Re-renders from the bound source, or from the last state if unbound
+  refresh(): void {
+    const state = this.source ? this.source() : this.state;
+    if (state !== null) this.update(state);
+  }
+}
+
+export interface EventSource {
+  subscribe(listener: (event: GameEvent) => void): () => void;
+}
+
+// Renders the component from `source` now and again after each of the
+// listed events
+export function connect<State>(
+  events: EventSource,
+  component: Component<State>,
+  source: () => State,
+  eventTypes: readonly GameEvent["type"][],
+): () => void {
+  component.bind(source).refresh();
+  return events.subscribe((event) => {
+    if (eventTypes.includes(event.type)) component.refresh();
+  });
+}
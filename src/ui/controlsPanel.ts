@@ -0,0 +1,77 @@
+import {
+  CONTROL_ACTION_LABELS,
+  type ControlAction,
+  type ControlBindings,
+} from "../controls.ts";
+import { Component } from "./component.ts";
+import { button, type Child, h } from "./dom.ts";
+
+// =============================================
+// CONTROLS PANEL
+// =============================================
+
+export type BindingDevice = "keyboard" | "gamepad";
+
+export interface ControlsPanelActions {
+  onRebind: (device: BindingDevice, action: ControlAction) => void;
+  onReset: () => void;
+}
+
+export class ControlsPanel extends Component<ControlBindings> {
+  constructor(private actions: ControlsPanelActions) {
+    super("details");
+  }
+
+  protected render(bindings: ControlBindings): Child[] {
+    const rows = Object.entries(CONTROL_ACTION_LABELS).map(([key, label]) => {
+      const action = key as ControlAction;
+      const keys = bindings.keyboard[action].join(", ") || "None";
+      const buttons = bindings.gamepad[action].map((index) =>
+        `Button ${index}`
+      ).join(
+        ", ",
+      ) || "None";
+
+      return h(
+        "tr",
+        {},
+        h("td", { text: label }),
+        h("td", {}, this.bindingButton(keys, "keyboard", action)),
+        h("td", {}, this.bindingButton(buttons, "gamepad", action)),
+      );
+    });
+
+    return [
+      h("summary", { text: "Keyboard & Gamepad Controls" }),
+      h("p", { text: "Click a binding, then press the new key or button." }),
+      h(
+        "table",
+        { className: "bindings-table" },
+        h(
+          "tr",
+          {},
+          h("th", { text: "Action" }),
+          h("th", { text: "Keyboard" }),
+          h("th", { text: "Gamepad" }),
+        ),
+        ...rows,
+      ),
+      button("Reset to Defaults", this.actions.onReset),
+    ];
+  }
+
+  // Shows a prompt on the button until the panel re-renders with the result
+  private bindingButton(
+    label: string,
+    device: BindingDevice,
+    action: ControlAction,
+  ): HTMLButtonElement {
+    const bindingButton = button(label, () => {
+      bindingButton.textContent = device === "keyboard"
+        ? "Press a key (Esc to cancel)..."
+        : "Press a gamepad button...";
+      this.actions.onRebind(device, action);
+    });
+    return bindingButton;
+  }
+}
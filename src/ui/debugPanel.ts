@@ -0,0 +1,44 @@
+import { Component } from "./component.ts";
+import { button, type Child, h } from "./dom.ts";
+
+// =============================================
+// DEBUG PANEL
+// =============================================
+
+export interface DebugAction {
+  label: string;
+  run: () => void;
+}
+
+// A row of debug actions above an output area. The state is whatever the
+// last action chose to show.
+export class DebugPanel extends Component<Child[]> {
+  private actionButtons: HTMLButtonElement[];
+
+  constructor(actions: DebugAction[]) {
+    super("div", "panel debug-panel");
+    this.actionButtons = actions.map((action) =>
+      button(action.label, action.run)
+    );
+    this.update([]);
+  }
+
+  protected render(output: Child[]): Child[] {
+    return [
+      h("h4", { text: "Debug Info" }),
+      ...this.actionButtons,
+      h("div", { className: "debug-output" }, ...output),
+    ];
+  }
+}
+
+// Two-column rows such as the memory statistics
+export function keyValueTable(rows: [string, string | number][]): HTMLElement {
+  return h(
+    "table",
+    { className: "key-value-table" },
+    ...rows.map(([label, value]) =>
+      h("tr", {}, h("td", { text: label }), h("td", { text: String(value) }))
+    ),
+  );
+}
@@ -0,0 +1,65 @@
+// =============================================
+// DOM HELPERS
+// =============================================
+
+type EventHandlers = {
+  [K in keyof HTMLElementEventMap]?: (event: HTMLElementEventMap[K]) => void;
+};
+
+export interface ElementProps {
+  id?: string;
+  className?: string;
+  text?: string;
+  attrs?: Record<string, string>; // Set with setAttribute, e.g. type or aria-*
+  dataset?: Record<string, string>;
+  style?: Record<string, string>; // Only for values computed at runtime
+  on?: EventHandlers;
+}
+
+export type Child = Node | string | null | undefined | false;
+
+// Builds an element without going through innerHTML, so game data is never
+// parsed as markup. Falsy children are skipped to allow inline conditions.
+export function h<K extends keyof HTMLElementTagNameMap>(
+  tagName: K,
+  props: ElementProps = {},
+  ...children: Child[]
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tagName);
+
+  if (props.id) element.id = props.id;
+  if (props.className) element.className = props.className;
+  if (props.text !== undefined) element.textContent = props.text;
+  for (const [name, value] of Object.entries(props.attrs ?? {})) {
+    element.setAttribute(name, value);
+  }
+  Object.assign(element.dataset, props.dataset);
+  for (const [name, value] of Object.entries(props.style ?? {})) {
+    element.style.setProperty(name, value);
+  }
+  for (const [type, listener] of Object.entries(props.on ?? {})) {
+    element.addEventListener(type, listener as EventListener);
+  }
+
+  for (const child of children) {
+    if (child) element.append(child);
+  }
+  return element;
+}
+
+export function button(
+  label: string,
+  onClick: () => void,
+  props: ElementProps = {},
+): HTMLButtonElement {
+  return h("button", {
+    ...props,
+    text: label,
+    attrs: { type: "button", ...props.attrs },
+    on: { click: onClick },
+  });
+}
+
+export function list(items: Child[], props: ElementProps = {}): HTMLElement {
+  return h("ul", props, ...items.map((item) => h("li", {}, item)));
+}
@@ -0,0 +1,25 @@
+import { Component } from "./component.ts";
+import { button, type Child } from "./dom.ts";
+
+// =============================================
+// UNDO / REDO CONTROLS
+// =============================================
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export class HistoryControls extends Component<HistoryState> {
+  constructor(private onUndo: () => void, private onRedo: () => void) {
+    super("div", "panel-row");
+  }
+
+  protected render(state: HistoryState): Child[] {
+    const undo = button("↶ Undo", this.onUndo);
+    const redo = button("↷ Redo", this.onRedo);
+    undo.disabled = !state.canUndo;
+    redo.disabled = !state.canRedo;
+    return [undo, redo];
+  }
+}
@@ -0,0 +1,83 @@
+import type { GameMode } from "../modes.ts";
+import type { Ruleset } from "../rulesets.ts";
+import { describeRecipe } from "../tokens.ts";
+import { Component } from "./component.ts";
+import { type Child, h, list } from "./dom.ts";
+
+// =============================================
+// INSTRUCTIONS
+// =============================================
+
+const HOW_TO_PLAY = [
+  "Select an inventory slot to choose which token you are holding",
+  "Click a token cell to pick it up into the selected slot",
+  "Click an empty cell to drop the selected token",
+  "Click a token cell to merge the selected token into it when a recipe combines them",
+  "A merged token's value is the sum of both values",
+  "Earn points when you merge tokens!",
+  "Undo and redo actions with the buttons, Ctrl+Z and Ctrl+Shift+Z",
+  "Use the movement buttons, arrow keys/WASD or a gamepad D-pad to navigate the map",
+  "Move the cell cursor with I/J/K/L and act on it with Space or Enter",
+  "Use the Nearby Cells list to play with a keyboard or screen reader, and turn on high contrast cells for outline patterns and symbols",
+  "Switch movement to your device location to play by walking",
+  "Open the same world in another tab to play together; add ?relay=ws://host:port to sync through a relay",
+  "The game keeps working offline; pick the plain grid tiles to play without any connection",
+  "Pick Free Play, a Timed Challenge or today's Daily Challenge when starting a new game",
+  "Export your save to a file and import it to share an exact board",
+  "Record a session and play it back step by step from the replay controls",
+  "The green square shows the cells you can reach; in rules with a spawn area, the dashed square shows where tokens spawn",
+];
+
+function describeDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.round(minutes / 60);
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+}
+
+// The delays are averages; each cell draws its own
+function describeWorldTime(ruleset: Ruleset): string[] {
+  const { respawnAfterMs, decayFromValue, decayAfterMs } = ruleset.worldTime;
+  const rules: string[] = [];
+  if (respawnAfterMs > 0) {
+    rules.push(
+      `Emptied cells regrow their token after about ${
+        describeDuration(respawnAfterMs)
+      }`,
+    );
+  }
+  if (decayAfterMs > 0) {
+    rules.push(
+      `Tokens worth ${decayFromValue} or more left on the ground lose half ` +
+        `their value about every ${describeDuration(decayAfterMs)}`,
+    );
+  }
+  return rules;
+}
+
+export interface InstructionsState {
+  ruleset: Ruleset;
+  mode: GameMode;
+}
+
+export class Instructions extends Component<InstructionsState> {
+  constructor() {
+    super("div");
+    this.element.id = "gameInstructions";
+  }
+
+  protected render({ ruleset, mode }: InstructionsState): Child[] {
+    const worldTime = describeWorldTime(ruleset);
+    return [
+      h("p", { text: "Click cells to collect and merge tokens!" }),
+      h("p", {}, h("strong", { text: `${mode.name}: ` }), mode.description),
+      h("p", {}, h("strong", { text: "How to play:" })),
+      list(HOW_TO_PLAY),
+      h("p", {}, h("strong", { text: "Recipes:" })),
+      list(ruleset.recipes.map(describeRecipe)),
+      worldTime.length > 0 &&
+      h("p", {}, h("strong", { text: "Over time:" })),
+      worldTime.length > 0 && list(worldTime),
+    ];
+  }
+}
@@ -0,0 +1,36 @@
+import { CONFIG } from "../config.ts";
+import { describeToken, TOKEN_KINDS } from "../tokens.ts";
+import type { Token } from "../types.ts";
+import { Component } from "./component.ts";
+import { type Child, h } from "./dom.ts";
+
+// =============================================
+// INVENTORY
+// =============================================
+
+export interface InventoryState {
+  inventory: (Token | null)[];
+  activeSlot: number;
+}
+
+export class InventoryBar extends Component<InventoryState> {
+  constructor(private onSelectSlot: (slot: number) => void) {
+    super("div", CONFIG.UI.INVENTORY_CLASS);
+  }
+
+  protected render(state: InventoryState): Child[] {
+    const slots = state.inventory.map((token, slot) => {
+      const isActive = slot === state.activeSlot;
+      const label = `${slot + 1}: ${token ? describeToken(token) : "Empty"}`;
+      return h("button", {
+        className: isActive ? "inventory-slot active" : "inventory-slot",
+        text: label,
+        attrs: { type: "button", "aria-pressed": String(isActive) },
+        style: token ? { color: TOKEN_KINDS[token.kind].color } : {},
+        on: { click: () => this.onSelectSlot(slot) },
+      });
+    });
+
+    return [h("span", { text: "Inventory:" }), ...slots];
+  }
+}
@@ -0,0 +1,38 @@
+import { Component } from "./component.ts";
+import { type Child, h } from "./dom.ts";
+
+// =============================================
+// MAP SETTINGS
+// =============================================
+
+export interface MapSettingsState {
+  providers: { id: string; name: string }[];
+  activeProvider: string;
+  isOnline: boolean;
+  requiresNetwork: boolean; // Whether the active provider needs it
+}
+
+export class MapSettings extends Component<MapSettingsState> {
+  constructor(private onSelectProvider: (id: string) => void) {
+    super("div", "panel-row");
+  }
+
+  protected render(state: MapSettingsState): Child[] {
+    const providerSelect = h("select", {
+      on: { change: () => this.onSelectProvider(providerSelect.value) },
+    });
+    for (const provider of state.providers) {
+      providerSelect.add(new Option(provider.name, provider.id));
+    }
+    providerSelect.value = state.activeProvider;
+
+    return [
+      h("label", {}, "Map tiles: ", providerSelect),
+      !state.isOnline && state.requiresNetwork &&
+      h("span", {
+        className: "offline-note",
+        text: " Offline: only tiles you have already seen are shown.",
+      }),
+    ];
+  }
+}
@@ -0,0 +1,89 @@
+import { Component } from "./component.ts";
+import { type Child, h } from "./dom.ts";
+
+// =============================================
+// MODAL DIALOGS
+// =============================================
+
+export interface ModalAction {
+  label: string;
+  value: string;
+}
+
+export interface ModalView {
+  title: string;
+  body: Child[];
+  actions: ModalAction[];
+}
+
+// One <dialog> reused for every prompt. open() resolves with the value of
+// the action that closed it, or null when it was dismissed with Escape or
+// replaced by another prompt.
+export class Modal extends Component<ModalView> {
+  private dismissPending: (() => void) | null = null;
+
+  constructor() {
+    super("dialog", "modal");
+  }
+
+  protected render(view: ModalView): Child[] {
+    const actions = view.actions.map((action) =>
+      h("button", { text: action.label, attrs: { value: action.value } })
+    );
+    return [
+      h(
+        "form",
+        { attrs: { method: "dialog" } },
+        h("h3", { text: view.title }),
+        ...view.body,
+        h("div", { className: "modal-actions" }, ...actions),
+      ),
+    ];
+  }
+
+  open(view: ModalView): Promise<string | null> {
+    const dialog = this.element as HTMLDialogElement;
+    // The replaced prompt settles now: the "close" event that closing it
+    // queues only arrives once the new prompt is showing
+    this.dismissPending?.();
+    if (dialog.open) dialog.close();
+
+    this.update(view);
+    dialog.returnValue = "";
+    dialog.showModal();
+    return new Promise((resolve) => {
+      const settle = (value: string | null) => {
+        dialog.removeEventListener("close", onClose);
+        this.dismissPending = null;
+        resolve(value);
+      };
+      const onClose = () => {
+        // Left over from closing a replaced prompt
+        if (dialog.open) return;
+        settle(dialog.returnValue || null);
+      };
+      dialog.addEventListener("close", onClose);
+      this.dismissPending = () => settle(null);
+    });
+  }
+
+  async alert(title: string, ...body: Child[]): Promise<void> {
+    await this.open({ title, body, actions: [{ label: "OK", value: "ok" }] });
+  }
+
+  async confirm(
+    title: string,
+    confirmLabel: string,
+    ...body: Child[]
+  ): Promise<boolean> {
+    const choice = await this.open({
+      title,
+      body,
+      actions: [
+        { label: "Cancel", value: "cancel" },
+        { label: confirmLabel, value: "confirm" },
+      ],
+    });
+    return choice === "confirm";
+  }
+}
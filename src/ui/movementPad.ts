@@ -0,0 +1,75 @@
+import type { Direction } from "../movement.ts";
+import { Component } from "./component.ts";
+import { type Child, h } from "./dom.ts";
+
+// =============================================
+// MOVEMENT PAD
+// =============================================
+
+export interface MovementPadState {
+  modes: { id: string; label: string }[];
+  activeMode: string;
+}
+
+const PAD_LAYOUT: (Direction | null)[] = [
+  null,
+  "north",
+  null,
+  "west",
+  "center",
+  "east",
+  null,
+  "south",
+  null,
+];
+
+const DIRECTION_LABELS: Record<Direction, string> = {
+  north: "↑ North",
+  south: "↓ South",
+  east: "→ East",
+  west: "← West",
+  center: "Center",
+};
+
+// The direction buttons outlive re-renders because the button movement
+// provider attaches its own listeners to them
+export class MovementPad extends Component<MovementPadState> {
+  readonly buttons: Record<Direction, HTMLButtonElement>;
+
+  constructor(private onSelectMode: (id: string) => void) {
+    super("div", "movement-pad");
+    this.buttons = {
+      north: this.createButton("north"),
+      south: this.createButton("south"),
+      east: this.createButton("east"),
+      west: this.createButton("west"),
+      center: this.createButton("center"),
+    };
+  }
+
+  private createButton(direction: Direction): HTMLButtonElement {
+    return h("button", {
+      text: DIRECTION_LABELS[direction],
+      attrs: { type: "button" },
+    });
+  }
+
+  protected render(state: MovementPadState): Child[] {
+    const modeSelect = h("select", {
+      on: { change: () => this.onSelectMode(modeSelect.value) },
+    });
+    for (const mode of state.modes) {
+      modeSelect.add(new Option(mode.label, mode.id));
+    }
+    modeSelect.value = state.activeMode;
+
+    const cells = PAD_LAYOUT.map((direction) =>
+      direction ? this.buttons[direction] : h("div")
+    );
+
+    return [
+      h("label", {}, "Movement: ", modeSelect),
+      h("div", { className: "movement-grid" }, ...cells),
+    ];
+  }
+}
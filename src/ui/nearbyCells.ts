@@ -0,0 +1,54 @@
+import type { NearbyCell } from "../accessibility.ts";
+import type { GridCell } from "../types.ts";
+import { Component } from "./component.ts";
+import { button, type Child, h, list } from "./dom.ts";
+
+// =============================================
+// NEARBY CELLS
+// =============================================
+
+// The reachable cells as a list of buttons, so the game can be played with
+// a keyboard and screen reader instead of the map
+export class NearbyCellsPanel extends Component<NearbyCell[]> {
+  constructor(private onSelectCell: (cell: GridCell) => void) {
+    super("details");
+  }
+
+  // Re-rendering replaces the buttons, so focus follows the cell it was on
+  override update(cells: NearbyCell[]): void {
+    const focused = document.activeElement;
+    const focusedKey = focused instanceof HTMLElement &&
+        this.element.contains(focused)
+      ? focused.dataset.cellKey
+      : undefined;
+
+    super.update(cells);
+
+    if (focusedKey === undefined) return;
+    const target = this.element.querySelector<HTMLElement>(
+      `[data-cell-key="${focusedKey}"]`,
+    );
+    (target ?? this.element.querySelector("summary"))?.focus();
+  }
+
+  protected render(cells: NearbyCell[]): Child[] {
+    const summary = h("summary", {
+      text: `Nearby Cells (${cells.length})`,
+    });
+    if (cells.length === 0) {
+      return [summary, h("p", { text: "Nothing within reach." })];
+    }
+
+    return [
+      summary,
+      list(
+        cells.map((entry) =>
+          button(entry.description, () => this.onSelectCell(entry.cell), {
+            dataset: { cellKey: entry.key },
+          })
+        ),
+        { className: "nearby-cells", attrs: { "aria-label": "Nearby cells" } },
+      ),
+    ];
+  }
+}
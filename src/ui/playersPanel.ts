@@ -0,0 +1,33 @@
+import type { RemotePlayer } from "../sync.ts";
+import { Component } from "./component.ts";
+import { type Child, h, list } from "./dom.ts";
+
+// =============================================
+// PLAYERS PANEL
+// =============================================
+
+export interface PlayersState {
+  playerId: string;
+  connections: string[]; // Transport labels
+  peers: { peer: RemotePlayer; distance: number }[];
+}
+
+export class PlayersPanel extends Component<PlayersState> {
+  constructor() {
+    super("details");
+  }
+
+  protected render(state: PlayersState): Child[] {
+    const peers = state.peers.map(({ peer, distance }) =>
+      `Player ${peer.playerId}: ${distance} cells away`
+    );
+    return [
+      h("summary", { text: `Players Nearby (${state.peers.length})` }),
+      h("p", {
+        text: `You are player ${state.playerId}, syncing with: ` +
+          (state.connections.join(", ") || "nobody"),
+      }),
+      list(peers.length > 0 ? peers : ["No other players yet"]),
+    ];
+  }
+}
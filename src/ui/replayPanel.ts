@@ -0,0 +1,107 @@
+import { CONFIG } from "../config.ts";
+import { Component } from "./component.ts";
+import { button, type Child, h } from "./dom.ts";
+
+// =============================================
+// REPLAY PANEL
+// =============================================
+
+export type ReplayPanelState =
+  | { mode: "recorder"; isRecording: boolean; status: string }
+  | {
+    mode: "playback";
+    isPlaying: boolean;
+    position: number;
+    length: number;
+    speed: number;
+    status: string;
+  };
+
+export interface ReplayPanelActions {
+  onToggleRecording: () => void;
+  onPlayLast: () => void;
+  onVerifyLast: () => void;
+  onDownloadLast: () => void;
+  onLoad: (file: File) => void;
+  onPlayPause: () => void;
+  onStep: () => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+export class ReplayPanel extends Component<ReplayPanelState> {
+  private fileInput = h("input", {
+    attrs: { type: "file", accept: ".json,application/json", hidden: "" },
+    on: { change: () => this.handleFileChosen() },
+  });
+
+  constructor(private actions: ReplayPanelActions) {
+    super("div", "panel-row");
+  }
+
+  protected render(state: ReplayPanelState): Child[] {
+    const status = h("div", { text: state.status });
+    return state.mode === "recorder"
+      ? this.renderRecorder(state.isRecording, status)
+      : this.renderPlayback(state, status);
+  }
+
+  private renderRecorder(isRecording: boolean, status: HTMLElement): Child[] {
+    return [
+      "Replay: ",
+      button(
+        isRecording ? "■ Stop" : "● Record",
+        this.actions.onToggleRecording,
+      ),
+      button("Play Last", this.actions.onPlayLast),
+      button("Verify Last", this.actions.onVerifyLast),
+      button("Download Last", this.actions.onDownloadLast),
+      button("Load Recording", () => this.fileInput.click()),
+      this.fileInput,
+      status,
+    ];
+  }
+
+  private renderPlayback(
+    state: Extract<ReplayPanelState, { mode: "playback" }>,
+    status: HTMLElement,
+  ): Child[] {
+    const speedSelect = h("select", {
+      on: {
+        change: () => this.actions.onSpeedChange(Number(speedSelect.value)),
+      },
+    });
+    for (const speed of CONFIG.REPLAY.SPEEDS) {
+      speedSelect.add(new Option(`${speed}x`, String(speed)));
+    }
+    speedSelect.value = String(state.speed);
+
+    return [
+      h(
+        "div",
+        { className: "replay-banner" },
+        h("strong", { text: "Replay mode" }),
+        " — your saved game is untouched.",
+        h(
+          "div",
+          {},
+          button(
+            state.isPlaying ? "⏸ Pause" : "▶ Play",
+            this.actions.onPlayPause,
+          ),
+          button("Step", this.actions.onStep),
+          h("label", {}, "Speed: ", speedSelect),
+          button("Exit Replay", this.actions.onExit),
+        ),
+        h("div", { text: `Step ${state.position} / ${state.length}` }),
+        status,
+      ),
+    ];
+  }
+
+  private handleFileChosen(): void {
+    const file = this.fileInput.files?.[0];
+    this.fileInput.value = ""; // Allow picking the same file again
+    if (file) this.actions.onLoad(file);
+  }
+}
@@ -0,0 +1,65 @@
+import type { ModeSummary } from "../modes.ts";
+import { Component } from "./component.ts";
+import { type Child, h } from "./dom.ts";
+
+// =============================================
+// STATUS BAR
+// =============================================
+
+export interface StatusState {
+  points: number;
+  highestValue: number;
+  interactionRange: number;
+  rulesetName: string;
+  modeName: string;
+  goal: string;
+  clock: string | null;
+  summary: ModeSummary | null; // Shown instead of the status once over
+}
+
+export class StatusBar extends Component<StatusState> {
+  private flashTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    super("div", "status-bar");
+    this.element.id = "statusPanel";
+  }
+
+  // Updates wait until a flashed message has had its moment
+  override update(state: StatusState): void {
+    if (this.flashTimer === null) super.update(state);
+  }
+
+  protected render(state: StatusState): Child[] {
+    this.element.classList.toggle("victory", state.summary !== null);
+
+    if (state.summary) {
+      return [
+        h("div", { text: state.summary.title }),
+        ...state.summary.lines.map((line) => h("div", { text: line })),
+      ];
+    }
+
+    const parts = [
+      `Points: ${state.points}`,
+      state.goal,
+      state.clock,
+      `Range: ${state.interactionRange} cells`,
+      `Highest: ${state.highestValue}`,
+      `Mode: ${state.modeName}`,
+      `Rules: ${state.rulesetName}`,
+    ];
+    return [parts.filter((part) => part !== null).join(" | ")];
+  }
+
+  // Shows a message in place of the status for a moment
+  flash(message: string, durationMs = 2000): void {
+    if (this.flashTimer !== null) clearTimeout(this.flashTimer);
+
+    this.element.replaceChildren(message);
+    this.flashTimer = setTimeout(() => {
+      this.flashTimer = null;
+      this.refresh();
+    }, durationMs);
+  }
+}
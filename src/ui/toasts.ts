@@ -0,0 +1,17 @@
+import { CONFIG } from "../config.ts";
+import { h } from "./dom.ts";
+
+// =============================================
+// TOASTS
+// =============================================
+
+// Short-lived notifications stacked in a corner of the screen
+export class ToastStack {
+  readonly element = h("div", { className: "toast-stack" });
+
+  show(message: string): void {
+    const toast = h("div", { className: "toast", text: message });
+    this.element.append(toast);
+    setTimeout(() => toast.remove(), CONFIG.UI.TOAST_DURATION_MS);
+  }
+}
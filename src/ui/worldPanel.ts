@@ -0,0 +1,55 @@
+import { Component } from "./component.ts";
+import { button, type Child, h } from "./dom.ts";
+
+// =============================================
+// WORLD PANEL
+// =============================================
+
+export interface WorldPanelState {
+  seed: string;
+  rulesetName: string;
+  gridName: string;
+}
+
+export interface WorldPanelActions {
+  onNewGame: () => void;
+  onShare: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+export class WorldPanel extends Component<WorldPanelState> {
+  private fileInput = h("input", {
+    attrs: { type: "file", accept: ".json,application/json", hidden: "" },
+    on: { change: () => this.handleFileChosen() },
+  });
+
+  constructor(private actions: WorldPanelActions) {
+    super("div", "panel-row");
+  }
+
+  protected render(state: WorldPanelState): Child[] {
+    return [
+      h("div", {
+        text: `World: ${
+          state.seed || "(default)"
+        } | Rules: ${state.rulesetName} | Grid: ${state.gridName}`,
+      }),
+      h(
+        "div",
+        {},
+        button("New Game", this.actions.onNewGame),
+        button("Share World", this.actions.onShare),
+        button("Export Save", this.actions.onExport),
+        button("Import Save", () => this.fileInput.click()),
+        this.fileInput,
+      ),
+    ];
+  }
+
+  private handleFileChosen(): void {
+    const file = this.fileInput.files?.[0];
+    this.fileInput.value = ""; // Allow picking the same file again
+    if (file) this.actions.onImport(file);
+  }
+}
@@ -0,0 +1,114 @@
+import luck from "./_luck.ts";
+import { CONFIG } from "./config.ts";
+import type { GridProjection } from "./grid.ts";
+import type { Ruleset } from "./rulesets.ts";
+import type { CellCoordinates, Token, TokenKind } from "./types.ts";
+
+// =============================================
+// WORLD GENERATION
+// =============================================
+
+// An unmodified cell's token depends only on these options and the cell's
+// own coordinates, never on where the player happens to be standing. That
+// is what lets the world forget unmodified cells and regenerate them later.
+export interface WorldGenOptions {
+  seed: string;
+  ruleset: Ruleset;
+  grid: GridProjection;
+  spawnCenter: CellCoordinates; // Only used by the "radius" spawn mode
+}
+
+export const DEFAULT_SEED = "";
+
+// Where "radius" rulesets place their spawn area
+export function getSpawnCenter(grid: GridProjection): CellCoordinates {
+  return grid.worldToCell(CONFIG.CLASSROOM_LOCATION);
+}
+
+// The empty seed keeps the luck() keys used before seeds existed, so older
+// saves regenerate the same untouched cells
+export function seededKey(seed: string, situation: string): string {
+  return seed === "" ? situation : `${seed}:${situation}`;
+}
+
+export function isInsideSpawnArea(
+  i: number,
+  j: number,
+  options: WorldGenOptions,
+): boolean {
+  const spawn = options.ruleset.spawn;
+  if (spawn.mode === "everywhere") return true;
+
+  return options.grid.cellDistance(options.spawnCenter, { i, j }) <=
+    spawn.spawnRadius;
+}
+
+export function shouldSpawnToken(
+  i: number,
+  j: number,
+  options: WorldGenOptions,
+): boolean {
+  if (!isInsideSpawnArea(i, j, options)) return false;
+
+  const spawnSeed = seededKey(options.seed, `${i},${j}`);
+  const spawnRoll = luck(spawnSeed);
+  return spawnRoll < options.ruleset.spawn.probability;
+}
+
+export function determineTokenValue(
+  i: number,
+  j: number,
+  options: WorldGenOptions,
+): number {
+  const valueSeed = seededKey(options.seed, `${i},${j},value`);
+  const valueRoll = luck(valueSeed);
+
+  let cumulativeProbability = 0;
+  for (
+    const [value, probability] of Object.entries(
+      options.ruleset.spawn.valueDistribution,
+    )
+  ) {
+    cumulativeProbability += probability;
+    if (valueRoll < cumulativeProbability) {
+      return parseInt(value);
+    }
+  }
+  return 1;
+}
+
+export function determineTokenKind(
+  i: number,
+  j: number,
+  options: WorldGenOptions,
+): TokenKind {
+  const kinds = Object.entries(options.ruleset.spawn.kindDistribution);
+  // Single-kind rulesets skip the roll
+  if (kinds.length === 1) return kinds[0][0] as TokenKind;
+
+  const kindSeed = seededKey(options.seed, `${i},${j},kind`);
+  const kindRoll = luck(kindSeed);
+
+  let cumulativeProbability = 0;
+  for (const [kind, probability] of kinds) {
+    cumulativeProbability += probability;
+    if (kindRoll < cumulativeProbability) {
+      return kind as TokenKind;
+    }
+  }
+  return kinds[kinds.length - 1][0] as TokenKind;
+}
+
+// The token a cell holds before anyone has touched it
+export function generateCellToken(
+  i: number,
+  j: number,
+  options: WorldGenOptions,
+): Token | null {
+  if (!shouldSpawnToken(i, j, options)) {
+    return null;
+  }
+  const kind = determineTokenKind(i, j, options);
+  const value = determineTokenValue(i, j, options);
+  return { kind, value };
+}
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { CONFIG } from "./config.ts";
+import { GameEngine, GameWorld } from "./engine.ts";
+import { cellToKey, findGridProjection } from "./grid.ts";
+import { defineRuleset, findRuleset, type Ruleset } from "./rulesets.ts";
+import type {
+  CellCoordinates,
+  PlayerState,
+  Token,
+  WorldCoordinates,
+} from "./types.ts";
+import {
+  generateCellToken,
+  getSpawnCenter,
+  type WorldGenOptions,
+} from "./worldgen.ts";
+
+const grid = findGridProjection("latLng")!;
+
+function createOptions(
+  ruleset = findRuleset("classic")!,
+  seed = "worldgen-test",
+): WorldGenOptions {
+  return { seed, ruleset, grid, spawnCenter: getSpawnCenter(grid) };
+}
+
+// Walks the player through `path`, bringing the cells around each stop
+// into view, and returns every cell seen with the token it spawned with
+function explore(
+  options: WorldGenOptions,
+  path: WorldCoordinates[],
+): Map<string, Token | null> {
+  const player: PlayerState = {
+    inventory: [null],
+    activeSlot: 0,
+    location: { ...CONFIG.CLASSROOM_LOCATION },
+    points: 0,
+  };
+  const engine = new GameEngine(new GameWorld(options), player);
+  const seen = new Map<string, Token | null>();
+  engine.subscribe((event) => {
+    if (event.type !== "cellSpawned") return;
+    const { i, j } = event.cell.coordinates;
+    seen.set(cellToKey(i, j), event.cell.token);
+  });
+
+  for (const location of path) {
+    engine.movePlayer(location);
+    engine.updateVisibleCells(grid.getCellsInRadius(engine.getPlayerCell(), 6));
+  }
+  return seen;
+}
+
+const classroomCell = grid.worldToCell(CONFIG.CLASSROOM_LOCATION);
+
+function offset(rows: number, columns: number): WorldCoordinates {
+  return grid.getCellCenter({
+    i: classroomCell.i + rows,
+    j: classroomCell.j + columns,
+  });
+}
+
+function assertSameTokens(
+  a: Map<string, Token | null>,
+  b: Map<string, Token | null>,
+): number {
+  let shared = 0;
+  for (const [cellKey, token] of a) {
+    if (!b.has(cellKey)) continue;
+    assert.deepStrictEqual(b.get(cellKey), token, `cell ${cellKey}`);
+    shared++;
+  }
+  return shared;
+}
+
+Deno.test("cells spawn the same tokens along different paths", () => {
+  const options = createOptions();
+  const straight = explore(options, [offset(0, 0), offset(0, 10)]);
+  const detour = explore(options, [
+    offset(20, -20),
+    offset(10, 5),
+    offset(-5, 15),
+    offset(0, 10),
+  ]);
+
+  assert.ok(assertSameTokens(straight, detour) > 100);
+});
+
+Deno.test("cells spawn the same tokens whatever order they are visited in", () => {
+  const options = createOptions();
+  const stops = [offset(0, 0), offset(8, 8), offset(-8, 4), offset(3, -9)];
+  const forward = explore(options, stops);
+  const backward = explore(options, [...stops].reverse());
+
+  assert.equal(assertSameTokens(forward, backward), forward.size);
+  assert.equal(forward.size, backward.size);
+});
+
+Deno.test("a revisited cell regenerates the token it spawned with", () => {
+  const options = createOptions();
+  const seen = explore(options, [offset(0, 0), offset(50, 50), offset(0, 0)]);
+  for (const [cellKey, token] of seen) {
+    const [i, j] = cellKey.split(",").map(Number);
+    assert.deepStrictEqual(generateCellToken(i, j, options), token);
+  }
+});
+
+Deno.test("different seeds generate different worlds", () => {
+  const cells: CellCoordinates[] = grid.getCellsInRadius({ i: 0, j: 0 }, 10);
+  const a = createOptions(undefined, "a");
+  const b = createOptions(undefined, "b");
+  assert.ok(
+    cells.some(({ i, j }) =>
+      JSON.stringify(generateCellToken(i, j, a)) !==
+        JSON.stringify(generateCellToken(i, j, b))
+    ),
+  );
+});
+
+Deno.test("radius spawning is centered on the spawn center, not the player", () => {
+  const classic = findRuleset("classic")!;
+  const ruleset: Ruleset = defineRuleset({
+    ...classic,
+    id: "worldgen-radius-test",
+    spawn: { ...classic.spawn, mode: "radius", probability: 1, spawnRadius: 4 },
+  });
+  const options = createOptions(ruleset);
+  const nearby = explore(options, [offset(0, 0)]);
+  const fromAfar = explore(options, [offset(30, 0), offset(3, 0)]);
+
+  assertSameTokens(nearby, fromAfar);
+  for (const [cellKey, token] of nearby) {
+    const [i, j] = cellKey.split(",").map(Number);
+    const inside = grid.cellDistance(options.spawnCenter, { i, j }) <= 4;
+    assert.equal(token !== null, inside, `cell ${cellKey}`);
+  }
+});
@@ -0,0 +1,63 @@
+import luck from "./_luck.ts";
+import type { CellMemento } from "./memento.ts";
+import { seededKey, type WorldGenOptions } from "./worldgen.ts";
+
+// =============================================
+// WORLD TIME
+// =============================================
+
+// When a memento's next change falls due: between half and one and a half
+// times the delay after its last change, so that cells left at the same
+// moment do not all change together
+function getDueTime(
+  memento: CellMemento,
+  delayMs: number,
+  change: string,
+  options: WorldGenOptions,
+): number {
+  const roll = luck(
+    seededKey(
+      options.seed,
+      `${memento.cellKey},${change},${memento.timestamp}`,
+    ),
+  );
+  return memento.timestamp + Math.round(delayMs * (0.5 + roll));
+}
+
+// The state a saved cell has reached by `now`. An emptied cell regrows its
+// generated token, and a valuable token left on the ground halves in value
+// again and again until it drops below the ruleset's threshold. Each change
+// follows from the time of the one before, so any tab, replay or later
+// visit works out the same history without timers. Returns null once the
+// cell is back to its generated token; otherwise the result is timestamped
+// with its last change, and the same memento when nothing changed.
+export function advanceCellState(
+  memento: CellMemento,
+  now: number,
+  options: WorldGenOptions,
+): CellMemento | null {
+  const { respawnAfterMs, decayFromValue, decayAfterMs } =
+    options.ruleset.worldTime;
+
+  let state = memento;
+  while (state.token) {
+    if (decayAfterMs === 0 || state.token.value < decayFromValue) return state;
+
+    const due = getDueTime(state, decayAfterMs, "decay", options);
+    if (due > now) return state;
+
+    state = {
+      cellKey: state.cellKey,
+      token: {
+        kind: state.token.kind,
+        value: Math.floor(state.token.value / 2),
+      },
+      timestamp: due,
+    };
+  }
+
+  if (respawnAfterMs === 0) return state;
+  return getDueTime(state, respawnAfterMs, "respawn", options) > now
+    ? state
+    : null;
+}